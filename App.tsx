@@ -1,4 +1,3 @@
-
 import React, { useState, useEffect, useCallback } from 'react';
 import { 
     Hub, 
@@ -7,35 +6,154 @@ import {
     ParentPanel, 
     ShopScreen, 
     TestSelection,
+    ProfilePicker,
     HUD 
 } from './components/Screens';
-import { GameType, AppState, Settings, TestResult, PlayMode } from './types';
-import { INITIAL_STATE, INITIAL_SETTINGS } from './constants';
+import { ProgressDashboard } from './components/ProgressDashboard';
+import { WorksheetScreen } from './components/WorksheetScreen';
+import { VillageScreen } from './components/VillageScreen';
+import { TrophyRoom, AchievementToast } from './components/TrophyRoom';
+import { ClassroomScreen } from './components/ClassroomScreen';
+import { GameType, AppState, Settings, TestResult, PlayMode, Profile, Attempt, Classroom } from './types';
+import { INITIAL_STATE, INITIAL_SETTINGS, MAX_ATTEMPTS, MAX_TEST_RESULTS, SHOP_ITEMS, PROFILE_ICONS } from './constants';
+import {
+    loadProfiles,
+    saveProfiles,
+    createProfileId,
+    loadProfileState,
+    saveProfileState,
+    loadProfileSettings,
+    saveProfileSettings,
+    deleteProfileData,
+    saveSnapshot,
+    loadSnapshot,
+    clearSnapshot,
+    loadSavedClassroom,
+    saveClassroom
+} from './services/storage';
+import { createBackup, downloadBackup } from './services/backup';
+import { configureSpeech, stopSpeech } from './services/speech';
+import { configureAudio, isAudible } from './services/audio';
+import { setLanguage, t } from './services/i18n';
+import { placeItem, clearPlot } from './services/village';
+import { Achievement, getNewAchievements, unlockAchievements, isUnlocked } from './services/achievements';
+import { markGoalMet, refillHearts, loseHeart } from './services/daily';
+import { applyRotation, resetRotation, isResting, getRestingGames, getDailyPlan } from './services/rotation';
+import { playableGames } from './games';
+import { getOpenAssignments, loadStudents, buildClassroomReport, isSyncUrl, syncClassroomReport } from './services/classroom';
 
 const App: React.FC = () => {
-    const [state, setState] = useState<AppState>(() => {
-        const saved = localStorage.getItem('mathVillageData');
-        return saved ? JSON.parse(saved) : INITIAL_STATE;
-    });
-
-    const [settings, setSettings] = useState<Settings>(() => {
-        const saved = localStorage.getItem('mathVillageSettings');
-        return saved ? JSON.parse(saved) : INITIAL_SETTINGS;
-    });
+    const [profiles, setProfiles] = useState<Profile[]>(loadProfiles);
+    const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+    const [state, setState] = useState<AppState>(INITIAL_STATE);
+    const [settings, setSettings] = useState<Settings>(INITIAL_SETTINGS);
+    const [saveWarning, setSaveWarning] = useState<string | null>(null);
+    const [classroomLoad] = useState(loadSavedClassroom);
+    const [classroom, setClassroom] = useState<Classroom>(classroomLoad.value);
+    const [showClassroom, setShowClassroom] = useState(false);
+    const [syncDue, setSyncDue] = useState(false);
 
-    const [currentView, setCurrentView] = useState<'hub' | 'game' | 'results' | 'shop' | 'parent' | 'test-select'>('hub');
+    const [currentView, setCurrentView] = useState<'hub' | 'game' | 'results' | 'shop' | 'village' | 'parent' | 'progress' | 'worksheet' | 'test-select' | 'trophies'>('hub');
     const [activeGame, setActiveGame] = useState<GameType | null>(null);
     const [playMode, setPlayMode] = useState<PlayMode>(PlayMode.TIMED);
     const [isTestMode, setIsTestMode] = useState(false);
     const [lastGameResult, setLastGameResult] = useState<TestResult | null>(null);
+    const [newAchievements, setNewAchievements] = useState<Achievement[]>([]);
+
+    const activeProfile = profiles.find(p => p.id === activeProfileId) || null;
+
+    // Set during render rather than in an effect so this render already uses the new catalog
+    setLanguage(settings.language);
+
+    useEffect(() => {
+        saveProfiles(profiles);
+    }, [profiles]);
+
+    useEffect(() => {
+        saveClassroom(classroom);
+    }, [classroom]);
+
+    useEffect(() => {
+        if (activeProfileId) saveProfileState(activeProfileId, state);
+    }, [activeProfileId, state]);
+
+    useEffect(() => {
+        if (activeProfileId) saveProfileSettings(activeProfileId, settings);
+    }, [activeProfileId, settings]);
+
+    // After a finished test, once it is saved above, the class report goes to the teacher's server if sync is on.
+    // Failures only log: the teacher can sync by hand from the classroom view.
+    useEffect(() => {
+        if (!syncDue) return;
+        setSyncDue(false);
+        const { sync, assignments } = classroom;
+        if (!sync.enabled || !isSyncUrl(sync.url)) return;
+        syncClassroomReport(sync.url, buildClassroomReport(loadStudents(profiles), assignments, Date.now()))
+            .then(() => setClassroom(prev => ({ ...prev, sync: { ...prev.sync, lastSyncedAt: Date.now() } })))
+            .catch(e => console.warn("Classroom sync failed", e));
+    }, [syncDue]);
+
+    useEffect(() => {
+        configureSpeech(settings.speech);
+    }, [settings.speech]);
 
     useEffect(() => {
-        localStorage.setItem('mathVillageData', JSON.stringify(state));
-    }, [state]);
+        configureAudio(settings);
+        if (!isAudible('voice')) stopSpeech();
+    }, [settings.soundOn, settings.mixer]);
 
+    // Checked after every change so an achievement unlocks wherever it is earned
     useEffect(() => {
-        localStorage.setItem('mathVillageSettings', JSON.stringify(settings));
-    }, [settings]);
+        if (!activeProfileId) return;
+        const earned = getNewAchievements(state, settings);
+        if (earned.length === 0) return;
+        setState(prev => unlockAchievements(prev, earned));
+        setNewAchievements(prev => [...prev, ...earned]);
+    }, [activeProfileId, state, settings]);
+
+    // Hearts come back over time, whichever screen is open
+    useEffect(() => {
+        if (!activeProfileId) return;
+        const refill = () => setState(prev => refillHearts(prev));
+        refill();
+        const timer = setInterval(refill, 60 * 1000);
+        return () => clearInterval(timer);
+    }, [activeProfileId]);
+
+    const selectProfile = (id: string) => {
+        const loadedState = loadProfileState(id);
+        const loadedSettings = loadProfileSettings(id);
+        setState(loadedState.value);
+        setSettings(loadedSettings.value);
+        setSaveWarning([loadedState.warning, loadedSettings.warning].filter(Boolean).join(' ') || null);
+        setActiveProfileId(id);
+        setCurrentView('hub');
+    };
+
+    const addProfile = (name: string, icon: string) => {
+        const profile: Profile = { id: createProfileId(), name, icon };
+        setProfiles(prev => [...prev, profile]);
+        selectProfile(profile.id);
+    };
+
+    // Students added from the classroom view get the next icons in turn and aren't selected
+    const addStudents = (names: string[]) => {
+        setProfiles(prev => [...prev, ...names.map((name, i) => ({ id: createProfileId(), name, icon: PROFILE_ICONS[(prev.length + i) % PROFILE_ICONS.length] }))]);
+    };
+
+    const removeProfile = (id: string) => {
+        const profile = profiles.find(p => p.id === id);
+        if (profile && confirm(t('profiles.delete', { name: profile.name }))) {
+            deleteProfileData(id);
+            setProfiles(prev => prev.filter(p => p.id !== id));
+        }
+    };
+
+    const switchProfile = () => {
+        setActiveProfileId(null);
+        setNewAchievements([]);
+        setCurrentView('hub');
+    };
 
     const addEmeralds = useCallback((amount: number) => {
         setState(prev => ({
@@ -46,6 +164,15 @@ const App: React.FC = () => {
         }));
     }, []);
 
+    const recordAttempt = useCallback((attempt: Attempt) => {
+        setState(prev => markGoalMet({
+            ...prev,
+            attempts: [...prev.attempts, attempt].slice(-MAX_ATTEMPTS)
+        }, settings.dailyGoal, settings.noPenalties));
+    }, [settings.dailyGoal, settings.noPenalties]);
+
+    const spendHeart = useCallback(() => setState(prev => loseHeart(prev)), []);
+
     const completeGame = useCallback((result: TestResult) => {
         setLastGameResult(result);
         
@@ -58,74 +185,100 @@ const App: React.FC = () => {
                 if (result.score >= currentBest) {
                     newState.testScores = { ...prev.testScores, [type]: result.score };
                 }
-            } else {
-                const newCounts = { ...prev.successCounts };
-                newCounts[type] = (newCounts[type] || 0) + 1;
-                const newLocks = { ...prev.isLocked };
-                if (newCounts[type] >= 5) newLocks[type] = true;
-
-                const newUnlockCounters = { ...prev.otherSuccessesSinceLock };
-                Object.keys(newLocks).forEach(gameKey => {
-                    if (newLocks[gameKey] && gameKey !== type) {
-                        newUnlockCounters[gameKey] = (newUnlockCounters[gameKey] || 0) + 1;
-                        if (newUnlockCounters[gameKey] >= 3) {
-                            newLocks[gameKey] = false;
-                            newCounts[gameKey] = 0;
-                            newUnlockCounters[gameKey] = 0;
-                        }
-                    }
-                });
-
-                newState.successCounts = newCounts;
-                newState.isLocked = newLocks;
-                newState.otherSuccessesSinceLock = newUnlockCounters;
+                newState.testResults = [...prev.testResults, { ...result, at: Date.now() }].slice(-MAX_TEST_RESULTS);
+                return newState;
             }
-            return newState;
+            return applyRotation(newState, result, playMode, settings.rotation);
         });
 
         addEmeralds(Math.floor(result.score / 10));
+        if (isTestMode) setSyncDue(true);
         setCurrentView('results');
-    }, [isTestMode, addEmeralds]);
+    }, [isTestMode, playMode, settings.rotation, addEmeralds]);
 
     const startGame = (type: GameType, mode: PlayMode = PlayMode.TIMED, test: boolean = false) => {
-        if (!test && state.isLocked[type]) return;
+        if (!playableGames(settings).some(game => game.type === type)) return;
+        if (!test && isResting(state, settings.rotation, type, mode)) return;
+        if (!test && mode === PlayMode.STREAK && !settings.noPenalties && state.hearts <= 0) return;
         setActiveGame(type);
         setPlayMode(mode);
         setIsTestMode(test);
         setCurrentView('game');
     };
 
+    const updateSettings = (next: Settings) => {
+        if (next.rotation !== settings.rotation) setState(prev => resetRotation(prev));
+        setSettings(next);
+    };
+
     const resetProgress = () => {
-        if (confirm("Reset everything for Idris?")) {
+        if (activeProfile && confirm(t('parent.resetConfirm', { name: activeProfile.name }))) {
+            saveSnapshot(activeProfile.id, state, settings);
             setState(INITIAL_STATE);
             setSettings(INITIAL_SETTINGS);
             setCurrentView('hub');
         }
     };
 
+    const undoReset = () => {
+        if (!activeProfile) return;
+        const snapshot = loadSnapshot(activeProfile.id);
+        if (snapshot && confirm(t('parent.undoConfirm', { name: activeProfile.name }))) {
+            setState(snapshot.state);
+            setSettings(snapshot.settings);
+            clearSnapshot(activeProfile.id);
+            setCurrentView('hub');
+        }
+    };
+
+    const importBackup = (importedState: AppState, importedSettings: Settings) => {
+        if (!activeProfile) return;
+        // Importing is also undoable through the reset snapshot
+        saveSnapshot(activeProfile.id, state, settings);
+        setState(importedState);
+        setSettings(importedSettings);
+        setCurrentView('hub');
+    };
+
     const buyItem = (price: number, itemId: string) => {
+        const isBlock = SHOP_ITEMS.find(i => i.id === itemId)?.kind === 'tile';
+        const slot = isBlock ? 'equippedTile' : 'equippedItem';
         if (state.emeralds >= price && !state.unlockedItems.includes(itemId)) {
             setState(prev => ({
                 ...prev,
                 emeralds: prev.emeralds - price,
                 unlockedItems: [...prev.unlockedItems, itemId],
-                equippedItem: itemId
+                inventory: isBlock ? { ...prev.inventory, [itemId]: (prev.inventory[itemId] || 0) + 1 } : prev.inventory,
+                [slot]: itemId
             }));
         } else if (state.unlockedItems.includes(itemId)) {
-            setState(prev => ({ ...prev, equippedItem: itemId }));
+            setState(prev => ({ ...prev, [slot]: itemId }));
         }
     };
 
+    // Blocks stack up in the chest so they can be placed in the village
+    const buyBlock = (price: number, itemId: string) => {
+        if (state.emeralds < price) return;
+        setState(prev => ({
+            ...prev,
+            emeralds: prev.emeralds - price,
+            inventory: { ...prev.inventory, [itemId]: (prev.inventory[itemId] || 0) + 1 }
+        }));
+    };
+
     const renderContent = () => {
         switch (currentView) {
             case 'hub':
-                return <Hub onStartGame={startGame} onOpenShop={() => setCurrentView('shop')} onOpenTests={() => setCurrentView('test-select')} lockedGames={state.isLocked} />;
+                return <Hub onStartGame={startGame} onOpenShop={() => setCurrentView('shop')} onOpenTests={() => setCurrentView('test-select')} onOpenVillage={() => setCurrentView('village')} onOpenTrophies={() => setCurrentView('trophies')} restingGames={getRestingGames(state, settings.rotation)} rotation={settings.rotation} plan={settings.dailyPlan ? getDailyPlan(state, settings) : null} state={state} settings={settings} />;
             case 'test-select':
                 return <TestSelection 
                     onStartTest={(type) => startGame(type, PlayMode.TIMED, true)} 
                     onBack={() => setCurrentView('hub')} 
+                    settings={settings}
                     scores={state.testScores}
-                    hasDiamondSword={(Object.values(state.testScores) as number[]).every(s => s >= 90) && Object.keys(state.testScores).length >= 4}
+                    assignments={getOpenAssignments(classroom.assignments)}
+                    testResults={state.testResults}
+                    hasDiamondSword={isUnlocked(state, 'diamond-sword')}
                 />;
             case 'game':
                 return activeGame ? (
@@ -134,6 +287,10 @@ const App: React.FC = () => {
                         mode={playMode}
                         isTest={isTestMode} 
                         settings={settings}
+                        playerName={activeProfile!.name}
+                        state={state}
+                        onAttempt={recordAttempt}
+                        onLoseHeart={spendHeart}
                         onComplete={completeGame}
                         onQuit={() => setCurrentView('hub')}
                     />
@@ -143,34 +300,86 @@ const App: React.FC = () => {
                     <ResultsScreen 
                         result={lastGameResult} 
                         isTest={isTestMode} 
+                        settings={settings}
+                        playerName={activeProfile!.name}
                         onHome={() => setCurrentView('hub')} 
                         onRetry={() => startGame(activeGame!, playMode, isTestMode)}
-                        isLocked={!isTestMode && !!state.isLocked[activeGame!]}
+                        isLocked={!isTestMode && isResting(state, settings.rotation, activeGame!, playMode)}
                     />
                 ) : null;
             case 'shop':
                 return <ShopScreen 
                     emeralds={state.emeralds} 
                     unlockedItems={state.unlockedItems} 
+                    inventory={state.inventory}
                     equippedItem={state.equippedItem} 
+                    equippedTile={state.equippedTile}
                     onBuy={buyItem} 
+                    onBuyBlock={buyBlock}
                     onBack={() => setCurrentView('hub')} 
                 />;
+            case 'village':
+                return <VillageScreen 
+                    state={state} 
+                    onPlace={(index, itemId) => setState(prev => placeItem(prev, index, itemId))} 
+                    onClear={index => setState(prev => clearPlot(prev, index))} 
+                    onOpenShop={() => setCurrentView('shop')} 
+                    onBack={() => setCurrentView('hub')} 
+                />;
+            case 'trophies':
+                return <TrophyRoom state={state} settings={settings} onBack={() => setCurrentView('hub')} />;
             case 'parent':
                 return <ParentPanel 
                     settings={settings} 
-                    onUpdate={setSettings} 
+                    onUpdate={updateSettings} 
                     onReset={resetProgress} 
+                    onOpenProgress={() => setCurrentView('progress')}
+                    onOpenWorksheet={() => setCurrentView('worksheet')}
+                    snapshotTakenAt={loadSnapshot(activeProfile!.id)?.takenAt ?? null}
+                    onExport={() => downloadBackup(createBackup(activeProfile!, state, settings))}
+                    onImport={importBackup}
+                    onUndoReset={undoReset}
                     onBack={() => setCurrentView('hub')} 
                 />;
+            case 'progress':
+                return <ProgressDashboard 
+                    attempts={state.attempts} 
+                    playerName={activeProfile!.name}
+                    onBack={() => setCurrentView('parent')} 
+                />;
+            case 'worksheet':
+                return <WorksheetScreen 
+                    settings={settings} 
+                    attempts={state.attempts} 
+                    playerName={activeProfile!.name}
+                    onBack={() => setCurrentView('parent')} 
+                />;
             default:
                 return null;
         }
     };
 
+    if (!activeProfile) {
+        return (
+            <div className="h-full w-full flex flex-col overflow-hidden bg-sky-200">
+                {showClassroom
+                    ? <ClassroomScreen profiles={profiles} classroom={classroom} warning={classroomLoad.warning} onUpdate={setClassroom} onAddStudents={addStudents} onBack={() => setShowClassroom(false)} />
+                    : <ProfilePicker profiles={profiles} onSelect={selectProfile} onCreate={addProfile} onDelete={removeProfile} onOpenClassroom={() => setShowClassroom(true)} />}
+            </div>
+        );
+    }
+
     return (
         <div className="h-full w-full flex flex-col overflow-hidden bg-sky-200">
-            {currentView !== 'game' && <HUD state={state} onOpenParent={() => setCurrentView('parent')} onHome={() => setCurrentView('hub')} showHome={currentView !== 'hub'} />}
+            {currentView !== 'game' && <HUD state={state} profile={activeProfile} onSwitchProfile={switchProfile} onOpenParent={() => setCurrentView('parent')} onHome={() => setCurrentView('hub')} showHome={currentView !== 'hub'} />}
+            {saveWarning && (
+                <div className="bg-yellow-300 border-b-4 border-black p-3 flex items-center gap-4 text-stone-900">
+                    <span className="text-2xl">⚠️</span>
+                    <p className="flex-1 text-sm font-bold">{saveWarning}</p>
+                    <button onClick={() => setSaveWarning(null)} className="mc-block bg-white px-4 py-2 text-xs font-black uppercase">{t('common.ok')}</button>
+                </div>
+            )}
+            {newAchievements.length > 0 && <AchievementToast key={newAchievements[0].id} achievement={newAchievements[0]} onDone={() => setNewAchievements(prev => prev.slice(1))} />}
             <main className="flex-1 overflow-hidden relative">
                 {renderContent()}
             </main>
@@ -0,0 +1,52 @@
+import React, { useRef, useState } from 'react';
+import { AppState, Settings } from '../types';
+import { parseBackup, ParsedBackup } from '../services/backup';
+import { t } from '../services/i18n';
+
+export const BackupSection: React.FC<{ snapshotTakenAt: number | null, onExport: () => void, onImport: (state: AppState, settings: Settings) => void, onUndoReset: () => void }> = ({ snapshotTakenAt, onExport, onImport, onUndoReset }) => {
+    const fileInput = useRef<HTMLInputElement>(null);
+    const [preview, setPreview] = useState<ParsedBackup | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        setError(null);
+        try {
+            setPreview(parseBackup(await file.text()));
+        } catch (e) {
+            setPreview(null);
+            setError(e instanceof Error ? e.message : String(e));
+        }
+        if (fileInput.current) fileInput.current.value = '';
+    };
+
+    return (
+        <section>
+            <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-stone-500 pl-4">{t('backup.title')}</p>
+            <div className="flex gap-6">
+                <button onClick={onExport} className="flex-1 p-6 mc-block bg-white text-stone-900 font-black uppercase shadow-lg">{t('backup.export')}</button>
+                <button onClick={() => fileInput.current?.click()} className="flex-1 p-6 mc-block bg-white text-stone-900 font-black uppercase shadow-lg">{t('backup.import')}</button>
+                <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={e => handleFile(e.target.files?.[0])} />
+            </div>
+            {error && <p className="mt-4 text-sm font-bold text-red-700">{error}</p>}
+            {preview && (
+                <div className="mt-4 bg-white mc-block p-6 text-stone-900 flex flex-col gap-3">
+                    <p className="font-black uppercase">{preview.profile.icon} {preview.profile.name}</p>
+                    <p className="text-sm">{preview.exportedAt ? t('backup.saved', { date: new Date(preview.exportedAt).toLocaleString() }) : t('backup.savedUnknown')}</p>
+                    <p className="text-sm">{t('backup.summary', { level: preview.state.level, emeralds: preview.state.emeralds, answers: preview.state.attempts.length, tests: Object.keys(preview.state.testScores).length })}</p>
+                    {preview.problems.length > 0 && <p className="text-xs text-orange-700">{t('backup.damaged', { fields: preview.problems.join(', ') })}</p>}
+                    <p className="text-xs text-red-700 font-bold">{t('backup.replaces')}</p>
+                    <div className="flex gap-4">
+                        <button onClick={() => setPreview(null)} className="flex-1 bg-stone-500 text-white mc-block mc-btn uppercase font-black">{t('common.cancel')}</button>
+                        <button onClick={() => { onImport(preview.state, preview.settings); setPreview(null); }} className="flex-1 bg-green-600 text-white mc-block mc-btn uppercase font-black">{t('backup.confirmImport')}</button>
+                    </div>
+                </div>
+            )}
+            {snapshotTakenAt && (
+                <button onClick={onUndoReset} className="mt-4 w-full p-6 mc-block bg-yellow-400 text-stone-900 font-black uppercase shadow-lg">
+                    {t('backup.undo', { date: new Date(snapshotTakenAt).toLocaleDateString() })}
+                </button>
+            )}
+        </section>
+    );
+};
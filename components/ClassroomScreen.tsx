@@ -0,0 +1,178 @@
+import React, { useMemo, useState } from 'react';
+import { Classroom, GameType, MasteryRating, Profile, SyncSettings } from '../types';
+import { ASSIGNMENT_DAYS } from '../constants';
+import { GAME_LIST, getGame } from '../games';
+import { downloadFile } from '../services/backup';
+import { loadStudents, createAssignment, getAssignmentStatus, formatDueDay, parseRosterNames, testResultsCsv, factAccuracyCsv, buildClassroomReport, isSyncUrl, syncClassroomReport } from '../services/classroom';
+import { dayKey } from '../services/stats';
+import { t, gameName, ratingName } from '../services/i18n';
+
+const RATINGS: MasteryRating[] = ['Wood', 'Iron', 'Diamond'];
+
+const Choice: React.FC<{ on: boolean, onClick: () => void, children: React.ReactNode }> = ({ on, onClick, children }) => (
+    <button onClick={onClick} className={`p-4 mc-block text-sm font-black uppercase shadow-lg ${on ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{children}</button>
+);
+
+export const ClassroomScreen: React.FC<{ profiles: Profile[], classroom: Classroom, warning: string | null, onUpdate: (c: Classroom) => void, onAddStudents: (names: string[]) => void, onBack: () => void }> = ({ profiles, classroom, warning, onUpdate, onAddStudents, onBack }) => {
+    // Read once per visit; nobody plays while the teacher view is open
+    const students = useMemo(() => loadStudents(profiles), [profiles]);
+    const [gameType, setGameType] = useState<GameType>(GAME_LIST[0].type);
+    const [rating, setRating] = useState<MasteryRating>('Iron');
+    const [due, setDue] = useState(() => dayKey(Date.now() + ASSIGNMENT_DAYS * 24 * 60 * 60 * 1000));
+    const [names, setNames] = useState('');
+    const [syncing, setSyncing] = useState(false);
+    const [syncError, setSyncError] = useState<string | null>(null);
+    const { assignments, sync } = classroom;
+
+    const addAssignment = () => onUpdate({ ...classroom, assignments: [...assignments, createAssignment(gameType, rating, Date.now(), due)] });
+    const removeAssignment = (id: string, type: GameType) => {
+        if (confirm(t('classroom.removeConfirm', { game: gameName(type) }))) onUpdate({ ...classroom, assignments: assignments.filter(a => a.id !== id) });
+    };
+    const updateSync = (changes: Partial<SyncSettings>) => onUpdate({ ...classroom, sync: { ...sync, ...changes } });
+
+    const newNames = parseRosterNames(names, profiles);
+    const addStudents = () => {
+        onAddStudents(newNames);
+        setNames('');
+    };
+
+    const today = dayKey(Date.now());
+    const download = (kind: 'tests' | 'facts' | 'json') => {
+        if (kind === 'json') downloadFile(`math-village-class-${today}.json`, JSON.stringify(buildClassroomReport(students, assignments, Date.now()), null, 2), 'application/json');
+        else downloadFile(`math-village-${kind}-${today}.csv`, kind === 'tests' ? testResultsCsv(students) : factAccuracyCsv(students), 'text/csv');
+    };
+
+    const syncNow = async () => {
+        setSyncing(true);
+        setSyncError(null);
+        try {
+            await syncClassroomReport(sync.url, buildClassroomReport(students, assignments, Date.now()));
+            updateSync({ lastSyncedAt: Date.now() });
+        } catch (e) {
+            setSyncError(e instanceof Error ? e.message : String(e));
+        }
+        setSyncing(false);
+    };
+
+    return (
+        <div className="h-full flex flex-col p-8 bg-stone-100 overflow-y-auto">
+            <h2 className="pixel-font text-2xl mb-10 text-stone-900 text-center uppercase border-b-4 border-stone-800 pb-6 tracking-tight">{t('classroom.title')}</h2>
+            <div className="flex flex-col gap-12 max-w-3xl mx-auto w-full">
+                {warning && <p className="bg-yellow-300 mc-block p-4 text-sm font-bold text-stone-900">⚠️ {warning}</p>}
+
+                <section>
+                    <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-orange-500 pl-4">{t('classroom.assignments')}</p>
+                    {assignments.length === 0 && <p className="text-sm text-stone-500 mb-4">{t('classroom.noAssignments')}</p>}
+                    <div className="flex flex-col gap-3 mb-6">
+                        {assignments.map(a => (
+                            <div key={a.id} className={`mc-block p-4 flex items-center gap-4 text-stone-900 ${a.due < today ? 'bg-stone-200' : 'bg-white'}`}>
+                                <span className="text-3xl">{getGame(a.gameType).test.icon}</span>
+                                <div className="flex-1">
+                                    <p className="font-black uppercase text-sm">{t('classroom.assignment', { game: gameName(a.gameType), rating: ratingName(a.rating) })}</p>
+                                    <p className="text-xs text-stone-500">{t(a.due < today ? 'classroom.ended' : 'classroom.due', { date: formatDueDay(a) })}</p>
+                                </div>
+                                <button onClick={() => removeAssignment(a.id, a.gameType)} className="w-10 h-10 bg-red-600 text-white mc-block text-xs">✕</button>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="bg-white mc-block p-6 flex flex-col gap-4 text-stone-900">
+                        <p className="font-black text-sm uppercase">{t('classroom.newAssignment')}</p>
+                        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                            {GAME_LIST.map(g => <Choice key={g.type} on={gameType === g.type} onClick={() => setGameType(g.type)}>{g.test.icon} {gameName(g.type)}</Choice>)}
+                        </div>
+                        <div className="grid grid-cols-3 gap-3">
+                            {RATINGS.map(r => <Choice key={r} on={rating === r} onClick={() => setRating(r)}>{ratingName(r)}</Choice>)}
+                        </div>
+                        <label className="flex items-center gap-4 font-bold text-sm uppercase">
+                            {t('classroom.dueLabel')}
+                            <input type="date" value={due} min={today} onChange={e => setDue(e.target.value)} className="flex-1 p-3 mc-block bg-white font-black" />
+                        </label>
+                        <button onClick={addAssignment} disabled={!due || due < today} className="bg-green-600 text-white mc-block mc-btn uppercase font-black disabled:opacity-40">{t('classroom.setAssignment')}</button>
+                    </div>
+                </section>
+
+                <section>
+                    <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-blue-500 pl-4">{t('classroom.roster')}</p>
+                    {students.length === 0
+                        ? <p className="text-sm text-stone-500">{t('classroom.noStudents')}</p>
+                        : (
+                            <div className="overflow-x-auto">
+                                <table className="w-full bg-white mc-block text-stone-900 text-sm">
+                                    <thead>
+                                        <tr className="border-b-2 border-stone-300">
+                                            <th className="p-3 text-start">{t('classroom.student')}</th>
+                                            <th className="p-3">{t('classroom.testsTaken')}</th>
+                                            {assignments.map(a => <th key={a.id} className="p-3" title={t('classroom.assignment', { game: gameName(a.gameType), rating: ratingName(a.rating) })}>{getGame(a.gameType).test.icon} {ratingName(a.rating)}</th>)}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {students.map(({ profile, state }) => (
+                                            <tr key={profile.id} className="border-b border-stone-200">
+                                                <td className="p-3 font-black">{profile.icon} {profile.name}</td>
+                                                <td className="p-3 text-center">{state.testResults.length}</td>
+                                                {assignments.map(a => {
+                                                    const status = getAssignmentStatus(a, state.testResults);
+                                                    return (
+                                                        <td key={a.id} className="p-3 text-center">
+                                                            {status.doneAt ? `✅${status.late ? ` ${t('classroom.late')}` : ''}` : status.best !== null ? `${status.best}%` : '—'}
+                                                        </td>
+                                                    );
+                                                })}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    {assignments.length > 0 && students.length > 0 && <p className="text-xs text-stone-500 mt-3">{t('classroom.key')}</p>}
+                    <div className="flex flex-col gap-3 mt-6">
+                        <textarea
+                            rows={3}
+                            value={names}
+                            placeholder={t('classroom.namesPlaceholder')}
+                            onChange={e => setNames(e.target.value)}
+                            className="w-full p-4 mc-block bg-white text-stone-900 font-bold text-lg"
+                        />
+                        <button onClick={addStudents} disabled={newNames.length === 0} className="bg-green-600 text-white mc-block mc-btn uppercase font-black disabled:opacity-40">{t('classroom.addStudents', { n: newNames.length })}</button>
+                    </div>
+                </section>
+
+                <section>
+                    <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-green-500 pl-4">{t('classroom.reports')}</p>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <button onClick={() => download('tests')} className="p-6 mc-block bg-white text-stone-900 text-sm font-black uppercase shadow-lg">{t('classroom.testsCsv')}</button>
+                        <button onClick={() => download('facts')} className="p-6 mc-block bg-white text-stone-900 text-sm font-black uppercase shadow-lg">{t('classroom.factsCsv')}</button>
+                        <button onClick={() => download('json')} className="p-6 mc-block bg-white text-stone-900 text-sm font-black uppercase shadow-lg">{t('classroom.json')}</button>
+                    </div>
+                </section>
+
+                <section>
+                    <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-purple-500 pl-4">{t('classroom.sync')}</p>
+                    <div className="flex gap-6 mb-6">
+                        {[false, true].map(on => <button key={String(on)} onClick={() => updateSync({ enabled: on })} className={`flex-1 p-8 mc-block text-lg font-black uppercase shadow-lg ${sync.enabled === on ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{on ? t('classroom.syncOn') : t('classroom.syncOff')}</button>)}
+                    </div>
+                    {sync.enabled && (
+                        <div className="flex flex-col gap-3 text-stone-900">
+                            <div className="flex gap-4">
+                                <input
+                                    dir="ltr"
+                                    type="url"
+                                    value={sync.url}
+                                    placeholder="http://192.168.1.10:8080/math-village"
+                                    onChange={e => updateSync({ url: e.target.value })}
+                                    className="flex-1 p-4 mc-block bg-white font-bold"
+                                />
+                                <button onClick={syncNow} disabled={syncing || !isSyncUrl(sync.url)} className="p-4 mc-block bg-white font-black uppercase shadow-lg disabled:opacity-40">{syncing ? t('classroom.syncing') : t('classroom.syncNow')}</button>
+                            </div>
+                            {syncError && <p className="text-sm font-bold text-red-700">{syncError}</p>}
+                            <p className="text-xs text-stone-500">{sync.lastSyncedAt ? t('classroom.syncedAt', { date: new Date(sync.lastSyncedAt).toLocaleString() }) : t('classroom.syncNever')}</p>
+                        </div>
+                    )}
+                    <p className="text-xs text-stone-500 mt-3">{t('classroom.syncNote')}</p>
+                </section>
+
+                <button onClick={onBack} className="bg-stone-900 text-white mc-block mc-btn uppercase text-2xl py-8 tracking-widest font-black shadow-xl">{t('common.back')}</button>
+            </div>
+        </div>
+    );
+};
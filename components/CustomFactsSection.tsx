@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { CustomFacts, Settings } from '../types';
+import { GAME_LIST } from '../games';
+import { usesCustomFacts } from '../services/adaptive';
+import { parseFactList, formatFactList, factsWith } from '../services/factList';
+import { factKey } from '../services/stats';
+import { t, gameName } from '../services/i18n';
+
+const QUICK_NUMBERS = [...Array(10)].map((_, i) => i + 1);
+
+export const CustomFactsSection: React.FC<{ settings: Settings, onUpdate: (s: Settings) => void }> = ({ settings, onUpdate }) => {
+    const custom = settings.customFacts;
+    const [text, setText] = useState(() => formatFactList(custom.facts));
+    const [invalid, setInvalid] = useState<string[]>([]);
+    const [quick, setQuick] = useState(9);
+    const update = (changes: Partial<CustomFacts>) => onUpdate({ ...settings, customFacts: { ...custom, ...changes } });
+
+    // The list is read when the box loses focus, so half-typed facts aren't flagged
+    const apply = (value: string) => {
+        const parsed = parseFactList(value);
+        setInvalid(parsed.invalid);
+        update({ facts: parsed.facts });
+    };
+
+    const addQuick = (op: '+' | '-') => {
+        const parsed = parseFactList(text);
+        const known = new Set(parsed.facts.map(factKey));
+        const facts = [...parsed.facts, ...factsWith(quick, op).filter(f => !known.has(factKey(f)))];
+        setText(formatFactList(facts));
+        setInvalid(parsed.invalid);
+        update({ facts, enabled: true });
+    };
+
+    const clear = () => {
+        setText('');
+        setInvalid([]);
+        update({ facts: [] });
+    };
+
+    const users = GAME_LIST.filter(g => usesCustomFacts(g.type, settings));
+
+    return (
+        <section>
+            <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-fuchsia-500 pl-4">{t('custom.title')}</p>
+            <div className="flex gap-6 mb-6">
+                {[false, true].map(on => <button key={String(on)} onClick={() => update({ enabled: on })} className={`flex-1 p-8 mc-block text-lg font-black uppercase shadow-lg ${custom.enabled === on ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{on ? t('custom.on') : t('custom.off')}</button>)}
+            </div>
+            <div className={`flex flex-col gap-4 text-stone-900 ${custom.enabled ? '' : 'opacity-40 pointer-events-none'}`}>
+                <textarea
+                    dir="ltr"
+                    rows={3}
+                    value={text}
+                    placeholder={t('custom.placeholder')}
+                    onChange={e => setText(e.target.value)}
+                    onBlur={() => apply(text)}
+                    className="w-full p-4 mc-block bg-white font-bold text-lg"
+                />
+                {invalid.length > 0 && <p className="text-sm font-bold text-red-700">{t('custom.invalid', { facts: invalid.join(', ') })}</p>}
+                <div className="flex gap-3 items-center font-bold text-sm uppercase">
+                    <select value={quick} onChange={e => setQuick(Number(e.target.value))} className="p-3 mc-block bg-white font-black">
+                        {QUICK_NUMBERS.map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                    <button onClick={() => addQuick('+')} className="flex-1 p-3 mc-block bg-white text-xs font-black uppercase">{t('custom.addPlus', { n: quick })}</button>
+                    <button onClick={() => addQuick('-')} className="flex-1 p-3 mc-block bg-white text-xs font-black uppercase">{t('custom.addMinus', { n: quick })}</button>
+                    <button onClick={clear} className="p-3 mc-block bg-stone-500 text-white text-xs font-black uppercase">{t('custom.clear')}</button>
+                </div>
+                <p className="text-xs text-stone-500">
+                    {users.length > 0 ? t('custom.usedBy', { games: users.map(g => gameName(g.type)).join(', ') }) : t('custom.usedByNone')}
+                </p>
+            </div>
+        </section>
+    );
+};
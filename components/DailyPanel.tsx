@@ -0,0 +1,40 @@
+import React from 'react';
+import { AppState, Settings } from '../types';
+import { getGoalProgress, getCurrentStreak, getStreakCalendar, streakBonus } from '../services/daily';
+import { t } from '../services/i18n';
+
+const CALENDAR_DAYS = 14;
+
+// Today's goal, the streak and the last two weeks of practice, shown on the hub
+export const DailyPanel: React.FC<{ state: AppState, settings: Settings }> = ({ state, settings }) => {
+    const goal = getGoalProgress(state.attempts, settings.dailyGoal);
+    const streak = getCurrentStreak(state, settings.noPenalties);
+    // Once today counts, the bonus has been paid for the current streak; otherwise it's the next one
+    const bonus = goal.met ? streakBonus(streak) : streakBonus(streak + 1);
+    const calendar = getStreakCalendar(state, CALENDAR_DAYS);
+    const percent = Math.min(100, Math.round((goal.value / goal.target) * 100));
+
+    return (
+        <div className="bg-white/80 mc-block p-4 flex flex-col md:flex-row gap-4 text-stone-900">
+            <div className="flex-1 flex flex-col gap-2">
+                <div className="flex justify-between items-center">
+                    <span className="font-black text-sm uppercase">
+                        {goal.met ? t('daily.goalDone') : t(settings.dailyGoal.unit === 'answers' ? 'daily.goalAnswers' : 'daily.goalMinutes', { value: goal.value, target: goal.target })}
+                    </span>
+                    <span className="pixel-font text-[10px] text-orange-600">{t('daily.streak', { n: streak })}</span>
+                </div>
+                <div className="h-5 bg-stone-300 mc-block overflow-hidden">
+                    <div className={`h-full transition-all ${goal.met ? 'bg-green-500' : 'bg-yellow-400'}`} style={{ width: `${percent}%` }} />
+                </div>
+                <span className="text-xs font-bold text-stone-600">{goal.met ? t('daily.bonusEarned', { n: bonus }) : t('daily.bonusNext', { n: bonus })}</span>
+            </div>
+            <div className="grid grid-cols-7 gap-1 shrink-0" aria-label={t('daily.calendar')}>
+                {calendar.map(cell => (
+                    <div key={cell.day} title={cell.day} className={`w-8 h-8 mc-block flex items-center justify-center text-[10px] font-black ${cell.practised ? 'bg-orange-500 text-white' : 'bg-stone-200 text-stone-500'} ${cell.isToday ? 'ring-2 ring-stone-900' : ''}`}>
+                        {cell.practised ? '🔥' : cell.date}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
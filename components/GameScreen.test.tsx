@@ -0,0 +1,43 @@
+// @vitest-environment jsdom
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GameType, PlayMode } from '../types';
+import { INITIAL_SETTINGS, INITIAL_STATE } from '../constants';
+import { playableGames } from '../games';
+import { GameScreen } from './Screens';
+import { speak } from '../services/speech';
+
+vi.mock('../services/speech', async original => ({ ...await original<typeof import('../services/speech')>(), speak: vi.fn() }));
+vi.mock('../services/audio', async original => ({ ...await original<typeof import('../services/audio')>(), playSFX: vi.fn() }));
+
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+describe('GameScreen', () => {
+    let container: HTMLDivElement;
+    let root: ReturnType<typeof createRoot>;
+
+    afterEach(() => {
+        vi.mocked(speak).mockClear();
+        act(() => root.unmount());
+        container.remove();
+    });
+
+    // Renders the game the way App does and lets its first question be asked
+    const start = (type: GameType, isTest: boolean) => {
+        container = document.createElement('div');
+        document.body.appendChild(container);
+        root = createRoot(container);
+        act(() => root.render(
+            <GameScreen type={type} mode={PlayMode.FREE} isTest={isTest} settings={INITIAL_SETTINGS} playerName="Sam" state={INITIAL_STATE}
+                onAttempt={() => {}} onLoseHeart={() => {}} onComplete={() => {}} onQuit={() => {}} />
+        ));
+    };
+
+    it.each(playableGames(INITIAL_SETTINGS).flatMap(game => [[game.type, false], [game.type, true]] as const))('%s asks its first question (test: %s)', (type, isTest) => {
+        start(type, isTest);
+        // Each question is read out once as it appears
+        expect(speak).toHaveBeenCalledTimes(1);
+        expect(vi.mocked(speak).mock.calls[0][0]).not.toBe('');
+    });
+});
@@ -0,0 +1,85 @@
+import React, { useMemo, useState } from 'react';
+import { Attempt, GameType } from '../types';
+import { t, gameName } from '../services/i18n';
+import { getFactStats, getDailyStats, getGameAccuracy, getSlowestFacts, getMostMissedFacts, FactStats } from '../services/stats';
+
+const accuracyColor = (accuracy: number) => accuracy >= 90 ? 'bg-green-500' : accuracy >= 75 ? 'bg-yellow-400' : 'bg-red-500';
+
+const FactList: React.FC<{ title: string, facts: FactStats[], detail: (f: FactStats) => string }> = ({ title, facts, detail }) => (
+    <section className="bg-white mc-block p-4 flex-1">
+        <p className="font-black text-sm uppercase text-stone-700 mb-3">{title}</p>
+        {facts.length === 0 && <p className="text-xs text-stone-500">{t('progress.nothing')}</p>}
+        {facts.map(f => (
+            <div key={`${f.gameType}:${f.key}`} className="flex justify-between py-1 border-b border-stone-200 text-stone-900">
+                <span className="font-black">{f.key.replace('-', ' − ').replace('+', ' + ')}</span>
+                <span className="text-xs text-stone-500">{gameName(f.gameType)} · {detail(f)}</span>
+            </div>
+        ))}
+    </section>
+);
+
+export const ProgressDashboard: React.FC<{ attempts: Attempt[], playerName: string, onBack: () => void }> = ({ attempts, playerName, onBack }) => {
+    const [gameFilter, setGameFilter] = useState<GameType>(GameType.MAKE_TEN);
+    const allFacts = useMemo(() => getFactStats(attempts), [attempts]);
+    const gameFacts = useMemo(
+        () => allFacts.filter(f => f.gameType === gameFilter).sort((x, y) => x.key.localeCompare(y.key, undefined, { numeric: true })),
+        [allFacts, gameFilter]
+    );
+
+    return (
+        <div className="h-full flex flex-col p-8 bg-stone-100 overflow-y-auto">
+            <h2 className="pixel-font text-2xl mb-10 text-stone-900 text-center uppercase border-b-4 border-stone-800 pb-6 tracking-tight">{t('progress.title', { name: playerName })}</h2>
+            <div className="flex flex-col gap-10 max-w-3xl mx-auto w-full">
+                <section>
+                    <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-orange-500 pl-4">{t('progress.week')}</p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {Object.values(GameType).map(type => {
+                            const overall = getGameAccuracy(attempts, type);
+                            const days = getDailyStats(attempts, type, 7);
+                            return (
+                                <div key={type} className="bg-white mc-block p-4 text-stone-900">
+                                    <div className="flex justify-between items-baseline mb-3">
+                                        <span className="font-black uppercase text-sm">{gameName(type)}</span>
+                                        <span className="text-xs text-stone-500">{overall.attempts ? t('progress.accuracy', { accuracy: overall.accuracy, attempts: overall.attempts }) : t('progress.notPlayed')}</span>
+                                    </div>
+                                    <div className="flex items-end gap-1 h-16">
+                                        {days.map(d => (
+                                            <div key={d.day} title={`${d.day}: ${d.correct}/${d.attempts}`} className="flex-1 h-full flex items-end bg-stone-100">
+                                                {d.attempts > 0 && <div className={`w-full ${accuracyColor(d.accuracy)}`} style={{ height: `${Math.max(d.accuracy, 5)}%` }} />}
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </section>
+
+                <section>
+                    <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-blue-500 pl-4">{t('progress.everyFact')}</p>
+                    <div className="flex gap-2 mb-4">
+                        {Object.values(GameType).map(type => (
+                            <button key={type} onClick={() => setGameFilter(type)} className={`flex-1 p-3 mc-block text-xs font-black uppercase ${gameFilter === type ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{gameName(type)}</button>
+                        ))}
+                    </div>
+                    {gameFacts.length === 0 && <p className="text-sm text-stone-500">{t('progress.noAnswers')}</p>}
+                    <div className="grid grid-cols-3 md:grid-cols-5 gap-2">
+                        {gameFacts.map(f => (
+                            <div key={f.key} className={`${accuracyColor(f.accuracy)} mc-block p-2 text-center text-stone-900`}>
+                                <p className="font-black">{f.key.replace('-', '−')}</p>
+                                <p className="text-[10px]">{f.correct}/{f.attempts} · {(f.avgMs / 1000).toFixed(1)}s</p>
+                            </div>
+                        ))}
+                    </div>
+                </section>
+
+                <div className="flex flex-col md:flex-row gap-4">
+                    <FactList title={t('progress.slowest')} facts={getSlowestFacts(allFacts, 5)} detail={f => `${(f.avgMs / 1000).toFixed(1)}s`} />
+                    <FactList title={t('progress.missed')} facts={getMostMissedFacts(allFacts, 5)} detail={f => t('progress.missedCount', { n: f.attempts - f.correct })} />
+                </div>
+
+                <button onClick={onBack} className="bg-stone-900 text-white mc-block mc-btn uppercase text-2xl py-8 tracking-widest font-black shadow-xl">{t('common.back')}</button>
+            </div>
+        </div>
+    );
+};
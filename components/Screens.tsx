@@ -1,184 +1,29 @@
 
-import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
-import { GameType, AppState, Settings, TestResult, MasteryRating, PlayMode } from '../types';
-import { SHOP_ITEMS, MasteryColors, CRAFT_OBJECTS, INITIAL_STATE } from '../constants';
-import { GoogleGenAI, Modality } from "@google/genai";
-
-// Audio Helpers for Gemini TTS
-function decode(base64: string) {
-    const binaryString = atob(base64);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes;
-}
-
-async function decodeAudioData(
-    data: Uint8Array,
-    ctx: AudioContext,
-    sampleRate: number,
-    numChannels: number,
-): Promise<AudioBuffer> {
-    const dataInt16 = new Int16Array(data.buffer);
-    const frameCount = dataInt16.length / numChannels;
-    const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-    for (let channel = 0; channel < numChannels; channel++) {
-        const channelData = buffer.getChannelData(channel);
-        for (let i = 0; i < frameCount; i++) {
-            channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-        }
-    }
-    return buffer;
-}
-
-// Procedural Sound Effects using Web Audio API
-const playSFX = (type: 'correct' | 'wrong' | 'victory') => {
-    try {
-        const AudioContextClass = (window as any).AudioContext || (window as any).webkitAudioContext;
-        if (!AudioContextClass) return;
-        
-        const ctx = new AudioContextClass();
-        const osc = ctx.createOscillator();
-        const gain = ctx.createGain();
-        
-        osc.connect(gain);
-        gain.connect(ctx.destination);
-        
-        const now = ctx.currentTime;
-        
-        if (type === 'correct') {
-            osc.type = 'sine';
-            osc.frequency.setValueAtTime(600, now);
-            osc.frequency.exponentialRampToValueAtTime(1200, now + 0.1);
-            gain.gain.setValueAtTime(0.2, now);
-            gain.gain.exponentialRampToValueAtTime(0.01, now + 0.3);
-            osc.start(now);
-            osc.stop(now + 0.3);
-        } else if (type === 'wrong') {
-            osc.type = 'square';
-            osc.frequency.setValueAtTime(150, now);
-            osc.frequency.linearRampToValueAtTime(100, now + 0.2);
-            gain.gain.setValueAtTime(0.1, now);
-            gain.gain.exponentialRampToValueAtTime(0.01, now + 0.4);
-            osc.start(now);
-            osc.stop(now + 0.4);
-        } else if (type === 'victory') {
-            osc.type = 'triangle';
-            const notes = [523.25, 659.25, 783.99, 1046.50];
-            notes.forEach((freq, i) => {
-                const time = now + i * 0.1;
-                osc.frequency.setValueAtTime(freq, time);
-            });
-            gain.gain.setValueAtTime(0.2, now);
-            gain.gain.exponentialRampToValueAtTime(0.01, now + 0.8);
-            osc.start(now);
-            osc.stop(now + 0.8);
-        }
-    } catch (e) {
-        console.error("Audio failed", e);
-    }
-};
-
-// Singleton to avoid creating multiple contexts and track active voice
-let sharedAudioContext: AudioContext | null = null;
-let activeAudioSource: AudioBufferSourceNode | null = null;
-let currentSpeechToken = 0;
-
-const stopCurrentAudio = () => {
-    if (activeAudioSource) {
-        try { activeAudioSource.stop(); } catch(e) {}
-        activeAudioSource = null;
-    }
-    if (typeof window !== 'undefined' && window.speechSynthesis) {
-        window.speechSynthesis.cancel();
-    }
-};
-
-const speak = async (text: string) => {
-    const token = ++currentSpeechToken;
-    
-    // Immediate interruption
-    stopCurrentAudio();
-
-    // 1. AI High Quality TTS Attempt
-    if (process.env.API_KEY) {
-        try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            const response = await ai.models.generateContent({
-                model: "gemini-2.5-flash-preview-tts",
-                contents: [{ parts: [{ text: `Say cheerfully to a 5-year-old child: ${text}` }] }],
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    speechConfig: {
-                        voiceConfig: {
-                            prebuiltVoiceConfig: { voiceName: 'Zephyr' },
-                        },
-                    },
-                },
-            });
-
-            // If another speak request was made while we were generating, discard this one
-            if (token !== currentSpeechToken) return;
-
-            const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-            if (base64Audio) {
-                if (!sharedAudioContext) {
-                    sharedAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-                }
-                const audioData = decode(base64Audio);
-                const audioBuffer = await decodeAudioData(audioData, sharedAudioContext, 24000, 1);
-                
-                // Final check before playing
-                if (token !== currentSpeechToken) return;
-                
-                const source = sharedAudioContext.createBufferSource();
-                source.buffer = audioBuffer;
-                source.connect(sharedAudioContext.destination);
-                activeAudioSource = source;
-                source.start();
-                return;
-            }
-        } catch (error) {
-            console.warn("AI TTS failed, falling back to Web Speech API", error);
-        }
-    }
-
-    // 2. Fallback to Native Browser TTS
-    if (typeof window !== 'undefined' && window.speechSynthesis) {
-        // Re-check token in case AI call took long and then failed
-        if (token !== currentSpeechToken) return;
-        
-        const utterance = new SpeechSynthesisUtterance(text);
-        utterance.rate = 1.0;
-        utterance.pitch = 1.2;
-        utterance.volume = 1.0;
-        utterance.lang = 'en-US';
-        setTimeout(() => {
-             if (token === currentSpeechToken) {
-                window.speechSynthesis.speak(utterance);
-             }
-        }, 10);
-    }
-};
-
-const SUCCESS_MESSAGES = [
-    "Thumbs up Idris!", "Bravo Idris!", "Amazing Idris!", "Keep going Idris!", "So cool Idris!", "You're a star Idris!"
-];
-
-const WRONG_MESSAGES = [
-    "Oops! Try again Idris!", "Almost there, Idris!", "You've got this, Idris!", "Keep trying, Idris!"
-];
-
-const FeedbackOverlay: React.FC<{ isVisible: boolean, isCorrect: boolean }> = ({ isVisible, isCorrect }) => {
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { GameType, AppState, Settings, TestResult, MasteryRating, PlayMode, Profile, Attempt, Fact, AudioChannel, ChannelSettings, Language, RotationSettings, DailyGoal, Assignment, TestRecord } from '../types';
+import { SHOP_ITEMS, MasteryColors, MasteryIcons, CRAFT_OBJECTS, PROFILE_ICONS, TEST_QUESTION_COUNT, DEFAULT_AVATAR, GEMINI_VOICES, SPEECH_LANGUAGES, LANGUAGES, MAX_HEARTS, HEART_REFILL_MINUTES, RANGES, BOND_TARGETS } from '../constants';
+import { generateQuestion } from '../services/questions';
+import { playableGames, getGame } from '../games';
+import { GameApi } from '../games/types';
+import { NumberPad } from '../games/shared';
+import { PlanItem, ANSWERS_PER_WIN, PLAN_SIZE, PLAN_ANSWERS } from '../services/rotation';
+import { refillHearts, minutesToNextHeart } from '../services/daily';
+import { DailyPanel } from './DailyPanel';
+import { getMasteryRating, buildResult, buildTimeUpResult } from '../services/scoring';
+import { BackupSection } from './BackupSection';
+import { CustomFactsSection } from './CustomFactsSection';
+import { getAssignmentStatus, formatDueDay } from '../services/classroom';
+import { speak, getDeviceVoices } from '../services/speech';
+import { playSFX } from '../services/audio';
+import { t, tList, gameName, testName, ratingName, itemName, getLanguageInfo } from '../services/i18n';
+
+const FeedbackOverlay: React.FC<{ isVisible: boolean, isCorrect: boolean, playerName: string }> = ({ isVisible, isCorrect, playerName }) => {
     const lastIndex = useRef(-1);
     const [msg, setMsg] = useState("");
 
     useEffect(() => {
         if (isVisible) {
-            const list = isCorrect ? SUCCESS_MESSAGES : WRONG_MESSAGES;
+            const list = tList(isCorrect ? 'feedback.success' : 'feedback.wrong', { name: playerName });
             let nextIndex = Math.floor(Math.random() * list.length);
             if (nextIndex === lastIndex.current) nextIndex = (nextIndex + 1) % list.length;
             lastIndex.current = nextIndex;
@@ -187,7 +32,7 @@ const FeedbackOverlay: React.FC<{ isVisible: boolean, isCorrect: boolean }> = ({
             setMsg(text);
             speak(text);
         }
-    }, [isVisible, isCorrect]);
+    }, [isVisible, isCorrect, playerName]);
 
     if (!isVisible) return null;
 
@@ -205,22 +50,28 @@ const FeedbackOverlay: React.FC<{ isVisible: boolean, isCorrect: boolean }> = ({
     );
 };
 
-export const HUD: React.FC<{ state: AppState, onOpenParent: () => void, onHome: () => void, showHome: boolean, instruction?: string, subInstruction?: string }> = ({ state, onOpenParent, onHome, showHome, instruction, subInstruction }) => {
+export const HUD: React.FC<{ state: AppState, profile?: Profile, onSwitchProfile?: () => void, onOpenParent: () => void, onHome: () => void, showHome: boolean, instruction?: string, subInstruction?: string }> = ({ state, profile, onSwitchProfile, onOpenParent, onHome, showHome, instruction, subInstruction }) => {
     return (
-        <header className="bg-stone-900 text-white flex flex-col border-b-4 border-black safe-top">
+        <header className="bg-stone-900 text-white flex flex-col border-b-4 border-black safe-top print:hidden">
             <div className="p-2 flex items-center justify-between h-24">
                 <div className="flex items-center gap-4 min-w-[100px]">
                     {showHome ? (
                         <button onClick={onHome} className="mc-block mc-btn bg-stone-500 w-12 h-12 text-2xl text-white">🏠</button>
                     ) : (
                         <div className="flex gap-1 ml-2">
-                             {[...Array(3)].map((_, i) => <span key={i} className="text-2xl">❤️</span>)}
+                             {[...Array(MAX_HEARTS)].map((_, i) => <span key={i} className={`text-2xl ${i < state.hearts ? '' : 'grayscale opacity-30'}`}>❤️</span>)}
                         </div>
                     )}
+                    {profile && onSwitchProfile && (
+                        <button onClick={onSwitchProfile} className="mc-block mc-btn bg-stone-700 h-12 px-3 gap-2 text-white">
+                            <span className="text-2xl">{profile.icon}</span>
+                            <span className="pixel-font text-[8px] uppercase hidden md:inline">{profile.name}</span>
+                        </button>
+                    )}
                 </div>
                 
                 <div className="flex-1 flex flex-col items-center justify-center text-center px-4">
-                    <h1 className="pixel-font text-xl text-white mb-1 uppercase tracking-widest leading-none drop-shadow-md">{instruction}</h1>
+                    <h1 dir="auto" className="pixel-font text-xl text-white mb-1 uppercase tracking-widest leading-none drop-shadow-md">{instruction}</h1>
                     {subInstruction && <p className="text-[10px] pixel-font text-yellow-400 animate-pulse">{subInstruction}</p>}
                 </div>
 
@@ -236,459 +87,415 @@ export const HUD: React.FC<{ state: AppState, onOpenParent: () => void, onHome:
     );
 };
 
-export const Hub: React.FC<{ onStartGame: (t: GameType, m: PlayMode) => void, onOpenShop: () => void, onOpenTests: () => void, lockedGames: Record<string, boolean> }> = ({ onStartGame, onOpenShop, onOpenTests, lockedGames }) => {
-    const [mode, setMode] = useState<PlayMode>(PlayMode.TIMED);
-    const tiles = [
-        { type: GameType.MAKE_TEN, title: 'Craft 10', icon: '⚒️', color: 'bg-orange-700' },
-        { type: GameType.NUMBER_HOP, title: 'Bridge', icon: '🌉', color: 'bg-blue-600' },
-        { type: GameType.DOUBLES, title: 'Magic x2', icon: '🪄', color: 'bg-purple-600' },
-        { type: GameType.COUNT_UP, title: 'Rescue', icon: '🆘', color: 'bg-red-600' },
-    ];
+export const ProfilePicker: React.FC<{ profiles: Profile[], onSelect: (id: string) => void, onCreate: (name: string, icon: string) => void, onDelete: (id: string) => void, onOpenClassroom: () => void }> = ({ profiles, onSelect, onCreate, onDelete, onOpenClassroom }) => {
+    const [isAdding, setIsAdding] = useState(profiles.length === 0);
+    const [name, setName] = useState("");
+    const [icon, setIcon] = useState(PROFILE_ICONS[profiles.length % PROFILE_ICONS.length]);
+
+    const submit = () => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        onCreate(trimmed, icon);
+        setName("");
+        setIsAdding(false);
+    };
 
+    return (
+        <div className="h-full flex flex-col p-8 bg-stone-300 mc-grid-bg overflow-y-auto">
+            <h2 className="pixel-font text-2xl mb-10 text-stone-900 text-center uppercase tracking-widest">{t('profiles.title')}</h2>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-6 max-w-3xl mx-auto w-full">
+                {profiles.map(p => (
+                    <div key={p.id} className="relative">
+                        <button onClick={() => onSelect(p.id)} className="bg-white mc-block mc-btn flex-col gap-4 w-full h-44 text-stone-900 shadow-xl">
+                            <span className="text-6xl">{p.icon}</span>
+                            <span className="pixel-font text-xs uppercase text-center">{p.name}</span>
+                        </button>
+                        <button onClick={() => onDelete(p.id)} className="absolute top-2 right-2 w-8 h-8 bg-red-600 text-white mc-block text-xs">✕</button>
+                    </div>
+                ))}
+                {!isAdding && (
+                    <button onClick={() => setIsAdding(true)} className="bg-green-700 mc-block mc-btn flex-col gap-4 text-white h-44 shadow-xl">
+                        <span className="text-6xl">➕</span>
+                        <span className="pixel-font text-xs uppercase">{t('profiles.new')}</span>
+                    </button>
+                )}
+            </div>
+            {isAdding && (
+                <div className="bg-white mc-block p-6 mt-10 max-w-xl mx-auto w-full flex flex-col gap-6 shadow-xl">
+                    <input 
+                        autoFocus
+                        value={name}
+                        maxLength={12}
+                        onChange={e => setName(e.target.value)}
+                        onKeyDown={e => e.key === 'Enter' && submit()}
+                        placeholder={t('profiles.namePlaceholder')}
+                        className="mc-block p-4 text-2xl font-black text-stone-900 uppercase"
+                    />
+                    <div className="flex gap-3 justify-center">
+                        {PROFILE_ICONS.map(i => (
+                            <button key={i} onClick={() => setIcon(i)} className={`w-14 h-14 mc-block text-3xl ${icon === i ? 'bg-yellow-400' : 'bg-stone-100'}`}>{i}</button>
+                        ))}
+                    </div>
+                    <div className="flex gap-4">
+                        {profiles.length > 0 && <button onClick={() => setIsAdding(false)} className="flex-1 bg-stone-500 text-white mc-block mc-btn uppercase font-black">{t('common.cancel')}</button>}
+                        <button onClick={submit} disabled={!name.trim()} className="flex-1 bg-green-600 text-white mc-block mc-btn uppercase font-black disabled:opacity-40">{t('profiles.play')}</button>
+                    </div>
+                </div>
+            )}
+            <button onClick={onOpenClassroom} className="mt-10 max-w-3xl mx-auto w-full bg-stone-700 text-white mc-block mc-btn uppercase font-black">🏫 {t('profiles.classroom')}</button>
+        </div>
+    );
+};
+
+export const Hub: React.FC<{ onStartGame: (t: GameType, m: PlayMode) => void, onOpenShop: () => void, onOpenTests: () => void, onOpenVillage: () => void, onOpenTrophies: () => void, restingGames: Record<string, number>, rotation: RotationSettings, plan: PlanItem[] | null, state: AppState, settings: Settings }> = ({ onStartGame, onOpenShop, onOpenTests, onOpenVillage, onOpenTrophies, restingGames, rotation, plan, state, settings }) => {
+    const [mode, setMode] = useState<PlayMode>(PlayMode.TIMED);
+    // Streak runs spend hearts, so they wait for a refill once the hearts run out
+    const outOfHearts = !settings.noPenalties && state.hearts <= 0;
     return (
         <div className="flex flex-col h-full p-4 overflow-y-auto gap-4">
+            <DailyPanel state={state} settings={settings} />
             <div className="flex gap-2 justify-center mb-2">
-                {[PlayMode.TIMED, PlayMode.FREE, PlayMode.STREAK].map(m => (
-                    <button 
-                        key={m} 
-                        onClick={() => setMode(m)}
-                        className={`flex-1 mc-block p-2 pixel-font text-[8px] h-14 ${mode === m ? 'bg-yellow-400 text-stone-900 border-white' : 'bg-stone-700 text-white'}`}
-                    >
-                        {m === PlayMode.STREAK ? '🚂 20 Streak' : m}
-                    </button>
-                ))}
+                {[PlayMode.TIMED, PlayMode.FREE, PlayMode.STREAK].map(m => {
+                    const noHearts = m === PlayMode.STREAK && outOfHearts;
+                    return (
+                        <button 
+                            key={m} 
+                            onClick={() => setMode(m)}
+                            disabled={noHearts}
+                            className={`flex-1 mc-block p-2 pixel-font text-[8px] h-14 ${mode === m && !noHearts ? 'bg-yellow-400 text-stone-900 border-white' : 'bg-stone-700 text-white'} disabled:opacity-60`}
+                        >
+                            {noHearts ? t('hub.noHearts', { n: minutesToNextHeart(state) }) : t(`mode.${m}`)}
+                        </button>
+                    );
+                })}
             </div>
+            {plan && (
+                <div className="bg-white/80 mc-block p-3 flex items-center gap-3 text-stone-900">
+                    <span className="pixel-font text-[10px] uppercase shrink-0">📅 {t('hub.plan')}</span>
+                    <div className="flex-1 grid grid-cols-3 gap-2">
+                        {plan.map(item => (
+                            <div key={item.type} className={`mc-block p-2 text-center text-xs font-black uppercase ${item.done ? 'bg-green-500 text-white' : 'bg-yellow-300'}`}>
+                                {item.done ? '✅ ' : ''}{gameName(item.type)}
+                                {!item.done && <span className="block text-[10px] font-bold">{item.correctToday}/{PLAN_ANSWERS}</span>}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
             <div className="grid grid-cols-2 lg:grid-cols-3 gap-4">
-                {tiles.map(tile => {
-                    const isLocked = !!lockedGames[tile.type];
+                {playableGames(settings).map(game => {
+                    const wakeIn = rotation.modes.includes(mode) ? restingGames[game.type] : undefined;
+                    const isLocked = wakeIn !== undefined;
+                    const planned = plan?.some(item => item.type === game.type && !item.done);
                     return (
                         <button 
-                            key={tile.type} 
+                            key={game.type} 
                             disabled={isLocked}
-                            onClick={() => onStartGame(tile.type, mode)}
-                            className={`${isLocked ? 'bg-stone-400 grayscale cursor-not-allowed opacity-60' : tile.color} mc-block mc-btn flex-col gap-2 text-white h-44 relative`}
+                            onClick={() => onStartGame(game.type, mode)}
+                            className={`${isLocked ? 'bg-stone-400 grayscale cursor-not-allowed opacity-60' : game.hub.color} mc-block mc-btn flex-col gap-2 text-white h-44 relative`}
                         >
-                            {isLocked && <div className="absolute top-2 left-2 right-2 bg-yellow-400 text-stone-900 pixel-font text-[8px] p-1 mc-block">RESTING...</div>}
-                            <span className="text-5xl">{isLocked ? '😴' : tile.icon}</span>
-                            <span className="pixel-font text-[10px] text-center uppercase leading-none">{isLocked ? 'Try Others!' : tile.title}</span>
+                            {isLocked && <div className="absolute top-2 left-2 right-2 bg-yellow-400 text-stone-900 pixel-font text-[8px] p-1 mc-block">{t('hub.resting')}</div>}
+                            {!isLocked && planned && <div className="absolute top-2 right-2 text-2xl">📅</div>}
+                            <span className="text-5xl">{isLocked ? '😴' : game.hub.icon}</span>
+                            <span className="pixel-font text-[10px] text-center uppercase leading-none">{isLocked ? t('hub.tryOthers') : gameName(game.type)}</span>
+                            {isLocked && <span className="text-[10px] font-bold uppercase">{t(rotation.unit === 'wins' ? 'hub.wakeWins' : 'hub.wakeMinutes', { n: wakeIn })}</span>}
                         </button>
                     );
                 })}
                 <button onClick={onOpenTests} className="bg-stone-700 mc-block mc-btn flex-col gap-2 text-white h-44">
                     <span className="text-5xl">⚔️</span>
-                    <span className="pixel-font text-xs uppercase">Training</span>
+                    <span className="pixel-font text-xs uppercase">{t('hub.training')}</span>
                 </button>
                 <button onClick={onOpenShop} className="bg-green-700 mc-block mc-btn flex-col gap-2 text-white h-44">
                     <span className="text-5xl">📦</span>
-                    <span className="pixel-font text-xs uppercase">Chest</span>
+                    <span className="pixel-font text-xs uppercase">{t('hub.chest')}</span>
+                </button>
+                <button onClick={onOpenVillage} className="bg-lime-600 mc-block mc-btn flex-col gap-2 text-white h-44">
+                    <span className="text-5xl">🏘️</span>
+                    <span className="pixel-font text-xs uppercase">{t('hub.village')}</span>
+                </button>
+                <button onClick={onOpenTrophies} className="bg-yellow-600 mc-block mc-btn flex-col gap-2 text-white h-44">
+                    <span className="text-5xl">🏆</span>
+                    <span className="pixel-font text-xs uppercase">{t('hub.trophies')}</span>
                 </button>
             </div>
         </div>
     );
 };
 
-export const TestSelection: React.FC<{ onStartTest: (t: GameType) => void, onBack: () => void, scores: Record<string, number>, hasDiamondSword: boolean }> = ({ onStartTest, onBack, scores, hasDiamondSword }) => {
-    const tests = [
-        { type: GameType.MAKE_TEN, title: 'Bonds to 10', icon: '🧱' },
-        { type: GameType.DOUBLES, title: 'Double Power', icon: '🌟' },
-        { type: GameType.NUMBER_HOP, title: 'Bridge Test', icon: '🏔️' },
-        { type: GameType.COUNT_UP, title: 'Count Up', icon: '🏃' },
-    ];
+export const TestSelection: React.FC<{ onStartTest: (t: GameType) => void, onBack: () => void, settings: Settings, scores: Record<string, number>, assignments: Assignment[], testResults: TestRecord[], hasDiamondSword: boolean }> = ({ onStartTest, onBack, settings, scores, assignments, testResults, hasDiamondSword }) => {
+    const games = playableGames(settings);
+    const diamonds = games.filter(game => getMasteryRating(scores[game.type] || 0) === 'Diamond').length;
     return (
         <div className="p-4 flex flex-col gap-4 h-full overflow-y-auto bg-stone-300">
-            <h2 className="pixel-font text-lg text-stone-900 mb-2">Mastery Tests</h2>
+            <h2 className="pixel-font text-lg text-stone-900 mb-2">{t('tests.title')}</h2>
+            <div className={`mc-block p-4 flex items-center gap-4 ${hasDiamondSword ? 'bg-cyan-200' : 'bg-stone-200'}`}>
+                <span className={`text-5xl ${hasDiamondSword ? 'floating' : 'grayscale opacity-40'}`}>⚔️</span>
+                <p className="font-black text-sm uppercase text-stone-900">{hasDiamondSword ? t('trophies.swordForged') : t('trophies.swordHint', { n: diamonds, total: games.length })}</p>
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {tests.map(t => {
-                    const score = scores[t.type] || 0;
-                    const rating = score >= 90 ? 'Diamond' : score >= 75 ? 'Iron' : 'Wood';
+                {games.map(game => {
+                    const score = scores[game.type] || 0;
+                    const rating = getMasteryRating(score);
+                    const assigned = assignments.filter(a => a.gameType === game.type);
                     return (
-                        <div key={t.type} className="bg-stone-100 p-4 mc-block flex items-center justify-between">
+                        <div key={game.type} className={`p-4 mc-block flex items-center justify-between ${assigned.length > 0 ? 'bg-yellow-100' : 'bg-stone-100'}`}>
                             <div className="flex items-center gap-3 text-stone-900">
-                                <span className="text-4xl">{t.icon}</span>
-                                <div><p className="font-bold text-sm uppercase">{t.title}</p><p className={`text-xs pixel-font ${MasteryColors[rating]}`}>{rating} ({score}%)</p></div>
+                                <span className="text-4xl">{game.test.icon}</span>
+                                <div>
+                                    <p className="font-bold text-sm uppercase">{testName(game.type, settings)}</p>
+                                    <p className={`text-xs pixel-font ${MasteryColors[rating]}`}>{ratingName(rating)} ({score}%)</p>
+                                    {assigned.map(a => (
+                                        <p key={a.id} className="text-xs font-bold mt-1">
+                                            {getAssignmentStatus(a, testResults).doneAt ? '✅ ' : '📌 '}{t('tests.assigned', { rating: ratingName(a.rating), date: formatDueDay(a) })}
+                                        </p>
+                                    ))}
+                                </div>
                             </div>
-                            <button onClick={() => onStartTest(t.type)} className="bg-stone-800 text-white px-6 py-3 mc-block text-xs uppercase">Start</button>
+                            <button onClick={() => onStartTest(game.type)} className="bg-stone-800 text-white px-6 py-3 mc-block text-xs uppercase">{t('common.start')}</button>
                         </div>
                     );
                 })}
             </div>
-            <button onClick={onBack} className="mt-auto mc-btn mc-block bg-stone-500 text-white w-full uppercase">Back</button>
+            <button onClick={onBack} className="mt-auto mc-btn mc-block bg-stone-500 text-white w-full uppercase">{t('common.back')}</button>
         </div>
     );
 };
 
+// Runs whichever game module `type` names: picks facts, logs answers, and handles retries and the typed pad
 const GameLogic: React.FC<{ 
     type: GameType, 
     settings: Settings, 
-    onAnswer: (correct: boolean) => void,
+    onAnswer: (attempt: Attempt) => void,
     onSetInstructions: (main: string, sub: string) => void,
-    feedbackVisible: boolean
-}> = ({ type, settings, onAnswer, onSetInstructions, feedbackVisible }) => {
+    feedbackVisible: boolean,
+    playerName: string,
+    attempts: Attempt[],
+    isTest: boolean,
+    avatar: string,
+    tileClass: string | null
+}> = ({ type, settings, onAnswer, onSetInstructions, feedbackVisible, playerName, attempts, isTest, avatar, tileClass }) => {
+    const game = getGame(type);
     const [question, setQuestion] = useState<any>(null);
-    const [userInput, setUserInput] = useState<any>(null);
-    const [hopsLeft, setHopsLeft] = useState(0);
     const [shake, setShake] = useState(false);
     const [currentIcon, setCurrentIcon] = useState(CRAFT_OBJECTS[0]);
-    const [choices, setChoices] = useState<number[]>([]);
-    const [showLocalTen, setShowLocalTen] = useState(false);
-
-    const generateQuestion = useCallback(() => {
-        const range = settings.range;
-        const opMode = settings.ops;
+    const askedAt = useRef(Date.now());
+    const lastFact = useRef<Fact | null>(null);
+    const awaitingNext = useRef(false);
+    const [typedValue, setTypedValue] = useState("");
+    const typed = !!settings.typedAnswers[type];
+    // Read through a ref so that logging an answer doesn't regenerate the current question
+    const attemptsRef = useRef(attempts);
+    attemptsRef.current = attempts;
+
+    const askNext = useCallback(() => {
         setCurrentIcon(CRAFT_OBJECTS[Math.floor(Math.random() * CRAFT_OBJECTS.length)]);
-        setShowLocalTen(false);
-        
-        switch (type) {
-            case GameType.MAKE_TEN: {
-                const have = Math.floor(Math.random() * 8) + 1;
-                const need = 10 - have;
-                const finalChoices = Array.from(new Set([need, Math.max(0, need + 1), Math.max(0, need - 1)]));
-                while(finalChoices.length < 3) {
-                    const extra = Math.floor(Math.random() * 11);
-                    if (!finalChoices.includes(extra)) finalChoices.push(extra);
-                }
-                setQuestion({ have, need });
-                setUserInput(have);
-                setChoices(finalChoices.sort(() => Math.random() - 0.5));
-                onSetInstructions("Craft 10!", `Have: ${have}. How many more?`);
-                speak(`Craft 10! You have ${have}. Add more blocks to make 10.`);
-                break;
-            }
-            case GameType.DOUBLES: {
-                const d = Math.floor(Math.random() * (range / 2)) + 1;
-                const near = opMode === 'mixed' && Math.random() > 0.6 ? (Math.random() > 0.5 ? 1 : -1) : 0;
-                const ans = d + d + near;
-                setQuestion({ a: d, b: d + near, ans });
-                
-                const choiceList = Array.from(new Set([ans, ans + 1, Math.max(0, ans - 1)]));
-                while(choiceList.length < 3) {
-                    const extra = Math.floor(Math.random() * (range + 1));
-                    if (!choiceList.includes(extra)) choiceList.push(extra);
-                }
-                setChoices(choiceList.sort(() => Math.random() - 0.5));
-
-                onSetInstructions("Double it!", `Double ${d}!`);
-                speak(`Double it! What is ${d} plus ${d + near}?`);
-                break;
-            }
-            case GameType.NUMBER_HOP: {
-                const isSub = opMode === 'mixed' ? Math.random() > 0.5 : opMode === 'minus';
-                let start, jump, target;
-                if (!isSub) {
-                    start = Math.floor(Math.random() * (range - 3));
-                    jump = Math.floor(Math.random() * (range - start - 1)) + 1;
-                    target = start + jump;
-                } else {
-                    start = Math.floor(Math.random() * (range - 3)) + 3;
-                    jump = Math.floor(Math.random() * start) + 1;
-                    target = start - jump;
-                }
-                setQuestion({ start, jump, target, isSub });
-                setUserInput(start);
-                setHopsLeft(jump);
-                const instr = isSub ? `Start at ${start}. Hop back ${jump}.` : `Start at ${start}. Hop ${jump}.`;
-                onSetInstructions(`${start} ${isSub ? '−' : '+'} ${jump} = ?`, instr);
-                speak(instr);
-                break;
-            }
-            case GameType.COUNT_UP: {
-                const end = Math.floor(Math.random() * 8) + (range === 10 ? 3 : 12);
-                const base = Math.max(0, end - (Math.floor(Math.random() * 5) + 2));
-                setQuestion({ start: base, end: end, ans: end - base });
-                setUserInput(base);
-                onSetInstructions(`${end} − ${base} = ?`, `Count up from ${base} to ${end}!`);
-                speak(`Rescue mission! To solve ${end} minus ${base}, let's count up from ${base} until we reach ${end}.`);
-                break;
-            }
-        }
-    }, [type, settings.range, settings.ops, onSetInstructions]);
+        askedAt.current = Date.now();
+        awaitingNext.current = false;
+        setTypedValue("");
+        const { fact, question: next } = generateQuestion(type, settings, attemptsRef.current, lastFact.current, Math.random, Date.now());
+        lastFact.current = fact;
+        setQuestion(next);
+        const { main, sub } = game.instructions(next);
+        onSetInstructions(main, sub);
+        speak(game.prompt(next));
+    }, [game, type, settings, onSetInstructions]);
 
     useEffect(() => {
-        generateQuestion();
-    }, [generateQuestion]);
-
-    const handleChoice = (val: number) => {
-        if (type === GameType.MAKE_TEN) {
-            if (val === question.need) {
-                setUserInput(10);
-                setShowLocalTen(true);
-                onAnswer(true);
-                setTimeout(generateQuestion, 2000);
-            } else {
-                setShake(true);
-                setTimeout(() => setShake(false), 500);
-                onAnswer(false);
-            }
-            return;
-        }
-        if (val === question.ans) {
-            onAnswer(true);
-            setTimeout(generateQuestion, 2000);
-        } else {
-            setShake(true);
-            setTimeout(() => setShake(false), 500);
-            onAnswer(false);
-        }
-    };
+        askNext();
+    }, [askNext]);
 
-    const handleHop = (jumpVal: number) => {
-        const actualJump = question.isSub ? -jumpVal : jumpVal;
-        if (hopsLeft < jumpVal) return;
-        
-        const nextPos = userInput + actualJump;
-        setUserInput(nextPos);
-        setHopsLeft(prev => prev - jumpVal);
-        
-        if (hopsLeft - jumpVal === 0) {
-            if (nextPos === question.target) {
-                onAnswer(true);
-                setTimeout(generateQuestion, 2000);
-            } else {
-                setShake(true);
-                setTimeout(() => {
-                    setShake(false);
-                    setUserInput(question.start);
-                    setHopsLeft(question.jump);
-                }, 500);
-                onAnswer(false);
-            }
-        }
+    // Input is ignored until the next question shows up
+    const nextQuestion = () => {
+        awaitingNext.current = true;
+        setTimeout(askNext, 2000);
     };
 
-    const handleRescueHop = (jumpVal: number) => {
-        const nextPos = userInput + jumpVal;
-        if (nextPos === question.end) {
-            setUserInput(nextPos);
-            speak(`${nextPos}! Perfect!`);
-            onAnswer(true);
-            setTimeout(generateQuestion, 2000);
-        } else if (nextPos > question.end) {
-            setShake(true);
-            setTimeout(() => setShake(false), 500);
-            onAnswer(false);
-        } else {
-            setUserInput(nextPos);
-            speak(nextPos.toString());
-        }
+    const shakeOnce = (after?: () => void) => {
+        setShake(true);
+        setTimeout(() => {
+            setShake(false);
+            if (after) after();
+        }, 500);
     };
 
-    if (!question) return null;
-
-    return (
-        <div className={`flex-1 flex flex-col items-center justify-center gap-4 p-4 ${shake ? 'shake' : ''} overflow-hidden`}>
-            {type === GameType.MAKE_TEN && (
-                <div className="flex flex-col items-center gap-4 w-full h-full justify-center">
-                    <div className="mb-6">
-                        <h2 className="pixel-font text-5xl text-blue-600 drop-shadow-[4px_4px_0px_rgba(0,0,0,0.2)] text-center animate-pulse uppercase">MAKE 10!</h2>
-                    </div>
-
-                    <div className="h-32 flex items-center justify-center relative w-full mb-4">
-                        {showLocalTen && (
-                            <div className="absolute animate-bounce flex flex-col items-center">
-                                <span className="text-8xl pixel-font text-yellow-500 drop-shadow-xl z-10">10!</span>
-                                <div className="text-xl pixel-font text-stone-800 bg-white/80 px-4 py-1 rounded-full mc-block mt-2">Perfect Idris!</div>
-                            </div>
-                        )}
-                        {!showLocalTen && (
-                            <div className={`text-stone-800 pixel-font text-[10px] flex flex-col items-center bg-white/70 p-6 mc-block border-stone-900 shadow-xl ${feedbackVisible ? 'opacity-0' : 'opacity-100'}`}>
-                                <span className="mb-2 uppercase">You have {question.have} blocks.</span>
-                                <span className="text-blue-700 font-black uppercase">How many more blocks to make 10?</span>
-                            </div>
-                        )}
-                    </div>
+    // Practice lets the child retry; in a test every answer counts, so a miss moves on
+    const handleWrong = (retry?: any) => {
+        shakeOnce(() => {
+            if (!isTest && retry) setQuestion(retry);
+        });
+        if (isTest) nextQuestion();
+    };
 
-                    <div className="grid grid-cols-5 gap-3 mc-block bg-stone-800 p-6 shadow-2xl scale-110">
-                        {[...Array(10)].map((_, i) => (
-                            <div key={i} className={`w-14 h-14 mc-block flex items-center justify-center ${i < userInput ? 'bg-orange-500' : 'bg-stone-700'}`}>
-                                {i < userInput && <span className="text-4xl animate-pulse">{currentIcon}</span>}
-                            </div>
-                        ))}
-                    </div>
+    const api: GameApi<any> = {
+        update: next => {
+            if (!awaitingNext.current) setQuestion(next);
+        },
+        // Response time runs from when the question was asked, or from the previous try at it
+        answer: (given, retry) => {
+            if (awaitingNext.current) return;
+            const { a, b, op } = lastFact.current;
+            const expected = game.expected(question);
+            const now = Date.now();
+            const attempt = { gameType: type, a, b, op, answer: expected, given, correct: given === expected, responseMs: now - askedAt.current, at: now };
+            askedAt.current = now;
+            if (game.settle && (attempt.correct || isTest)) setQuestion(prev => game.settle(prev, attempt.correct));
+            if (attempt.correct) {
+                nextQuestion();
+            } else {
+                handleWrong(retry);
+            }
+            onAnswer(attempt);
+        },
+        shake: () => shakeOnce()
+    };
 
-                    <div className="flex gap-6 mt-12">
-                        {choices.map((c, i) => (
-                            <button key={i} onClick={() => handleChoice(c)} className="w-24 h-24 bg-white mc-block text-4xl font-bold text-stone-900 shadow-xl active:scale-90 active:translate-y-1 transition-all">{c}</button>
-                        ))}
-                    </div>
-                </div>
-            )}
+    const addDigit = (digit: string) => setTypedValue(prev => (prev + digit).replace(/^0+(?=\d)/, '').slice(0, 3));
 
-            {type === GameType.DOUBLES && (
-                <div className="flex flex-col items-center justify-center w-full h-full">
-                    <div className="flex flex-col items-center justify-center w-full max-w-4xl py-12">
-                        <div className={`flex flex-col items-center mb-10 transition-opacity duration-200 ${feedbackVisible ? 'opacity-0' : 'opacity-100'}`}>
-                            <span className="pixel-font text-4xl text-blue-700 uppercase tracking-tighter drop-shadow-sm">Double it!</span>
-                            <span className="pixel-font text-sm text-stone-600 mt-3 font-bold uppercase tracking-widest">Double {question.a}</span>
-                        </div>
-                        
-                        <div className="text-[120px] font-black flex gap-10 pixel-font text-stone-900 drop-shadow-lg mb-12 leading-none">
-                            <span>{question.a}</span><span>+</span><span>{question.b}</span>
-                        </div>
-                        
-                        <div className="grid grid-cols-3 gap-10 w-full px-8">
-                            {choices.map((v, i) => (
-                                <button 
-                                    key={i} 
-                                    onClick={() => handleChoice(v)} 
-                                    className="bg-white mc-block py-14 text-7xl font-black text-stone-900 shadow-[0_20px_40px_rgba(0,0,0,0.15)] active:translate-y-3 active:shadow-inner transition-all hover:bg-stone-50"
-                                >
-                                    {v}
-                                </button>
-                            ))}
-                        </div>
-                    </div>
-                </div>
-            )}
+    const removeDigit = () => setTypedValue(prev => prev.slice(0, -1));
 
-            {type === GameType.NUMBER_HOP && (
-                <div className="flex flex-col items-center w-full gap-4 justify-center h-full">
-                    <div className={`flex flex-col items-center mb-8 transition-opacity duration-200 ${feedbackVisible ? 'opacity-0' : 'opacity-100'}`}>
-                        <h2 className="pixel-font text-4xl text-blue-600 drop-shadow-[2px_2px_0px_rgba(0,0,0,0.2)] text-center mb-4">
-                            {question.start} {question.isSub ? '−' : '+'} {question.jump} = ?
-                        </h2>
-                        <div className="bg-white/70 px-6 py-4 mc-block border-stone-800 text-center shadow-lg">
-                            <p className="pixel-font text-[10px] uppercase text-stone-900 font-black mb-2">
-                                Start at {question.start}. {question.isSub ? 'Hop back' : 'Hop'} {question.jump} blocks.
-                            </p>
-                            <p className="pixel-font text-[12px] uppercase text-red-600 font-black animate-pulse">
-                                Hops Left: {hopsLeft}
-                            </p>
-                        </div>
-                    </div>
+    const submitTyped = () => {
+        if (awaitingNext.current || !typedValue) return;
+        const value = parseInt(typedValue, 10);
+        setTypedValue("");
+        if (game.submitTyped) game.submitTyped(question, value, api);
+        else api.answer(value);
+    };
 
-                    <div className="w-full h-52 relative mc-block bg-stone-200 flex items-center px-4 overflow-hidden shadow-inner mb-6">
-                         <div className="flex items-center gap-0 w-full relative h-full">
-                            {[...Array(settings.range + 1)].map((_, i) => (
-                                <div key={i} className={`flex-1 h-14 border-r border-stone-400 flex items-center justify-center relative`}>
-                                    <span className={`text-[10px] absolute -bottom-10 font-bold ${i % 10 === 0 ? 'text-blue-800 scale-150 underline' : 'text-stone-700'} w-full text-center`}>{i}</span>
-                                    {userInput === i && (
-                                        <div className="absolute -top-20 left-1/2 -translate-x-1/2 z-20 flex flex-col items-center transition-all duration-300 pointer-events-none">
-                                            <div className="w-20 h-20 rounded-full bg-blue-500/20 absolute -z-10 animate-ping"></div>
-                                            <span className="text-7xl drop-shadow-[0_5px_5px_rgba(0,0,0,0.5)]">🕷️</span>
-                                            <span className="text-[8px] pixel-font text-blue-900 mt-1 uppercase font-black whitespace-nowrap">IDRIS</span>
-                                        </div>
-                                    )}
-                                    {question.target === i && (
-                                        <div className="absolute -top-14 left-1/2 -translate-x-1/2 opacity-90 z-10 animate-pulse flex flex-col items-center pointer-events-none">
-                                            <span className="text-5xl drop-shadow-md">🚩</span>
-                                            <div className="w-12 h-1 bg-red-600/30 blur-sm rounded-full mt-1"></div>
-                                        </div>
-                                    )}
-                                </div>
-                            ))}
-                         </div>
-                    </div>
-                    <div className="flex gap-6 w-full px-6 game-controls max-w-2xl mt-4">
-                        {[1, 2, 5].map(v => (
-                            <button 
-                                key={v} 
-                                disabled={hopsLeft < v} 
-                                onClick={() => handleHop(v)} 
-                                className={`flex-1 mc-block p-8 text-4xl font-black transition-all ${hopsLeft >= v ? 'bg-blue-600 text-white shadow-2xl active:translate-y-2' : 'bg-stone-300 text-stone-500 opacity-40 shadow-none'}`}
-                            >
-                                {question.isSub ? '−' : '+'}{v}
-                            </button>
-                        ))}
-                        <button onClick={() => { setUserInput(question.start); setHopsLeft(question.jump); }} className="w-24 bg-red-500 text-white mc-block p-6 text-2xl active:scale-90">🔄</button>
-                    </div>
-                </div>
-            )}
+    // Keyboard: digits, Backspace and Enter when typing; otherwise whatever shortcuts the game has
+    const handleKey = (e: KeyboardEvent) => {
+        if (!question) return;
+        if (typed) {
+            if (/^[0-9]$/.test(e.key)) addDigit(e.key);
+            else if (e.key === 'Backspace') removeDigit();
+            else if (e.key === 'Enter') submitTyped();
+            return;
+        }
+        if (game.onKey) game.onKey(question, e.key, api, playerName);
+    };
+    const keyHandler = useRef(handleKey);
+    keyHandler.current = handleKey;
 
-            {type === GameType.COUNT_UP && (
-                <div className="flex flex-col items-center gap-6 justify-center h-full w-full">
-                    {/* Centered Large Equation Header */}
-                    <div className={`flex flex-col items-center mb-8 transition-opacity duration-200 ${feedbackVisible ? 'opacity-0' : 'opacity-100'}`}>
-                        <h2 className="pixel-font text-5xl text-blue-600 drop-shadow-[3px_3px_0px_rgba(0,0,0,0.2)] text-center mb-6 uppercase">
-                            Rescue Mission!
-                        </h2>
-                        <div className="text-[80px] font-black pixel-font text-stone-900 mb-6 flex gap-6 items-center">
-                            <span>{question.end}</span>
-                            <span className="text-red-600 relative -top-[0.1em]">−</span>
-                            <span>{question.start}</span>
-                            <span className="text-blue-700">=</span>
-                            <span className="animate-pulse">?</span>
-                        </div>
-                        <div className="bg-white/80 p-6 mc-block border-stone-800 text-center shadow-xl max-w-lg">
-                            <p className="pixel-font text-[10px] uppercase text-stone-900 font-black leading-relaxed">
-                                Let's count from {question.start} up to {question.end}!
-                            </p>
-                        </div>
-                    </div>
+    useEffect(() => {
+        const listener = (e: KeyboardEvent) => keyHandler.current(e);
+        window.addEventListener('keydown', listener);
+        return () => window.removeEventListener('keydown', listener);
+    }, []);
 
-                    <div className="flex items-center gap-10 text-7xl text-stone-900 font-bold bg-white/70 p-16 mc-block shadow-2xl border-stone-400">
-                        <div className="flex flex-col items-center"><span className="text-4xl mb-2">🚩</span><span>{userInput}</span></div>
-                        <span className="text-5xl animate-pulse">➡️</span>
-                        <div className="flex flex-col items-center opacity-40"><span className="text-4xl mb-2">🏁</span><span>{question.end}</span></div>
-                    </div>
+    if (!question) return null;
 
-                    <div className="flex gap-8 w-full px-4 max-w-xl mt-8">
-                        {[1, 2].map(v => (
-                            <button key={v} onClick={() => handleRescueHop(v)} className="flex-1 bg-green-600 text-white mc-block p-10 text-5xl font-black shadow-2xl active:scale-95 active:bg-green-700">+{v}</button>
-                        ))}
-                        <button onClick={() => setUserInput(question.start)} className="w-28 bg-red-500 text-white mc-block p-4 active:rotate-180 transition-transform">🔄</button>
-                    </div>
-                </div>
-            )}
+    const View = game.View;
+    return (
+        <div className={`flex-1 flex flex-col items-center justify-center gap-4 p-4 ${shake ? 'shake' : ''} overflow-hidden`}>
+            <View
+                question={question}
+                api={api}
+                settings={settings}
+                playerName={playerName}
+                avatar={avatar}
+                tileClass={tileClass}
+                icon={currentIcon}
+                feedbackVisible={feedbackVisible}
+                numberPad={typed ? <NumberPad value={typedValue} onDigit={addDigit} onDelete={removeDigit} onSubmit={submitTyped} /> : null}
+            />
         </div>
     );
 };
 
+const getAvatar = (state: AppState) => SHOP_ITEMS.find(i => i.id === state.equippedItem)?.icon || DEFAULT_AVATAR;
+
+const getTileClass = (state: AppState) => SHOP_ITEMS.find(i => i.id === state.equippedTile)?.tileClass || null;
+
 export const GameScreen: React.FC<{ 
     type: GameType, 
     mode: PlayMode,
     isTest: boolean, 
     settings: Settings, 
+    playerName: string,
+    state: AppState,
+    onAttempt: (a: Attempt) => void,
+    onLoseHeart: () => void,
     onComplete: (r: TestResult) => void, 
     onQuit: () => void 
-}> = ({ type, mode, isTest, settings, onComplete, onQuit }) => {
+}> = ({ type, mode, isTest, settings, playerName, state, onAttempt, onLoseHeart, onComplete, onQuit }) => {
     const [qIndex, setQIndex] = useState(0);
     const [correctCount, setCorrectCount] = useState(0);
-    const [hearts, setHearts] = useState(mode === PlayMode.STREAK ? 3 : 99);
+    const [attemptCount, setAttemptCount] = useState(0);
+    // Streak runs play on the hearts kept between runs
+    const [hearts, setHearts] = useState(() => mode === PlayMode.STREAK ? refillHearts(state).hearts : MAX_HEARTS);
     const [timeLeft, setTimeLeft] = useState(isTest ? settings.testTimer : settings.sessionTimer * 60);
+    const [timeUp, setTimeUp] = useState(false);
     const [feedback, setFeedback] = useState<{ visible: boolean, correct: boolean }>({ visible: false, correct: false });
     const [instructions, setInstructions] = useState({ main: "", sub: "" });
     const timerRef = useRef<any>(null);
+    const startedAt = useRef(Date.now());
+    const isFinishedRef = useRef(false);
+    const hasTimer = isTest || mode === PlayMode.TIMED;
 
     useEffect(() => {
-        if (!isTest && mode === PlayMode.TIMED) {
-            timerRef.current = setInterval(() => setTimeLeft(prev => prev > 0 ? prev - 1 : 0), 1000);
-        } else if (isTest) {
+        if (hasTimer) {
             timerRef.current = setInterval(() => setTimeLeft(prev => prev > 0 ? prev - 1 : 0), 1000);
         }
         return () => clearInterval(timerRef.current);
-    }, [mode, isTest]);
+    }, [hasTimer]);
+
+    const elapsedSeconds = () => Math.round((Date.now() - startedAt.current) / 1000);
+
+    const finish = (result: TestResult, delay: number) => {
+        if (isFinishedRef.current) return;
+        isFinishedRef.current = true;
+        clearInterval(timerRef.current);
+        playSFX('victory');
+        setTimeout(() => onComplete(result), delay);
+    };
+
+    // Out of time: a test is scored even with nothing answered; a timed session with no answers just ends
+    useEffect(() => {
+        if (!hasTimer || timeLeft > 0 || isFinishedRef.current) return;
+        setTimeUp(true);
+        if (!isTest && attemptCount === 0) {
+            isFinishedRef.current = true;
+            setTimeout(onQuit, 2000);
+            return;
+        }
+        finish(buildTimeUpResult(type, correctCount, attemptCount, elapsedSeconds(), isTest), 2000);
+    }, [timeLeft]);
 
     const memoOnSetInstructions = useCallback((main: string, sub: string) => {
         setInstructions({ main, sub });
     }, []);
 
-    const handleAnswer = (correct: boolean) => {
+    const handleAnswer = (attempt: Attempt) => {
+        if (isFinishedRef.current) return;
+        const correct = attempt.correct;
+        onAttempt(attempt);
+        setAttemptCount(prev => prev + 1);
         setFeedback({ visible: true, correct });
         
-        if (settings.soundOn) {
-            playSFX(correct ? 'correct' : 'wrong');
-        }
+        playSFX(correct ? 'correct' : 'wrong');
 
         setTimeout(() => setFeedback({ visible: false, correct: false }), 1500);
 
-        if (correct) {
-            const nextCorrect = correctCount + 1;
-            setCorrectCount(nextCorrect);
-            
-            const isFinished = (isTest && qIndex + 1 >= 10) || (mode === PlayMode.STREAK && nextCorrect >= 20);
-            
-            if (isFinished) {
-                if (settings.soundOn) playSFX('victory');
-                const finalResult = isTest 
-                    ? { score: (nextCorrect/10)*100, rating: (nextCorrect/10)*100 >= 90 ? 'Diamond' : 'Wood', time: settings.testTimer - timeLeft, gameType: type } as TestResult
-                    : { score: 100, rating: 'Diamond', time: 0, gameType: type } as TestResult;
-                
-                setTimeout(() => onComplete(finalResult), 2000);
+        const nextCorrect = correct ? correctCount + 1 : correctCount;
+        if (correct) setCorrectCount(nextCorrect);
+
+        // A test is a fixed set of questions, right or wrong
+        if (isTest) {
+            if (qIndex + 1 >= TEST_QUESTION_COUNT) {
+                finish(buildResult(type, nextCorrect, TEST_QUESTION_COUNT, elapsedSeconds()), 2000);
             } else {
                 setQIndex(prev => prev + 1);
             }
+            return;
+        }
+
+        if (correct) {
+            if (mode === PlayMode.STREAK && nextCorrect >= 20) {
+                finish(buildResult(type, nextCorrect, attemptCount + 1, elapsedSeconds()), 2000);
+            }
         } else {
-            if (mode === PlayMode.STREAK) {
+            if (mode === PlayMode.STREAK && !settings.noPenalties) {
+                onLoseHeart();
                 setHearts(prev => {
                     if (prev <= 1) setTimeout(onQuit, 1600);
                     return prev - 1;
@@ -698,98 +505,326 @@ export const GameScreen: React.FC<{
     };
 
     return (
-        <div className="flex flex-col h-full bg-sky-100 relative overflow-hidden">
-            <FeedbackOverlay isVisible={feedback.visible} isCorrect={feedback.correct} />
-            <HUD state={INITIAL_STATE} onOpenParent={() => {}} onHome={onQuit} showHome={true} instruction={instructions.main} subInstruction={instructions.sub} />
+        <div className={`flex flex-col h-full bg-sky-100 relative overflow-hidden one-handed-${settings.oneHandedMode}`}>
+            <FeedbackOverlay isVisible={feedback.visible} isCorrect={feedback.correct} playerName={playerName} />
+            {timeUp && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+                    <div className="bg-yellow-400 mc-block p-10 flex flex-col items-center gap-4 animate-bounce shadow-2xl">
+                        <span className="text-8xl">⏰</span>
+                        <span className="pixel-font text-stone-900 text-2xl uppercase">{t('play.timeUp')}</span>
+                    </div>
+                </div>
+            )}
+            <HUD state={state} onOpenParent={() => {}} onHome={onQuit} showHome={true} instruction={instructions.main} subInstruction={instructions.sub} />
             
             <div className="px-6 py-3 flex justify-between items-center bg-stone-100 border-b-4 border-stone-800">
                 <div className="flex gap-3">
-                    {mode === PlayMode.STREAK && [...Array(3)].map((_, i) => (
+                    {mode === PlayMode.STREAK && [...Array(MAX_HEARTS)].map((_, i) => (
                         <span key={i} className={`text-3xl transition-all duration-500 ${i < hearts ? 'scale-125' : 'grayscale opacity-10 blur-[1px]'}`}>❤️</span>
                     ))}
-                    {!isTest && mode !== PlayMode.STREAK && <span className={`pixel-font text-xs text-stone-500 uppercase tracking-tighter transition-opacity duration-200 ${feedback.visible ? 'opacity-0' : 'opacity-100'}`}>FREE PLAY MODE</span>}
+                    {!isTest && mode !== PlayMode.STREAK && <span className={`pixel-font text-xs text-stone-500 uppercase tracking-tighter transition-opacity duration-200 ${feedback.visible ? 'opacity-0' : 'opacity-100'}`}>{t('play.freePlay')}</span>}
                 </div>
                 <div className="pixel-font text-sm text-stone-900 font-black">
-                    {mode === PlayMode.STREAK ? `STREAK: ${correctCount}/20` : `IDRIS SCORE: ${correctCount}`}
+                    {mode === PlayMode.STREAK ? t('play.streak', { n: correctCount }) : isTest ? t('play.question', { n: Math.min(qIndex + 1, TEST_QUESTION_COUNT), total: TEST_QUESTION_COUNT }) : t('play.score', { name: playerName.toUpperCase(), n: correctCount })}
                 </div>
                 {(mode === PlayMode.TIMED || isTest) && <div className="pixel-font text-sm text-red-700 font-bold border-2 border-red-700 px-2 py-1 bg-red-100">⏱️ {timeLeft}S</div>}
             </div>
             
-            <GameLogic type={type} settings={settings} onAnswer={handleAnswer} onSetInstructions={memoOnSetInstructions} feedbackVisible={feedback.visible} />
+            <GameLogic key={type} type={type} settings={settings} onAnswer={handleAnswer} onSetInstructions={memoOnSetInstructions} feedbackVisible={feedback.visible} playerName={playerName} attempts={state.attempts} isTest={isTest} avatar={getAvatar(state)} tileClass={getTileClass(state)} />
 
             <div className="p-4 safe-bottom flex gap-2">
-                <button onClick={onQuit} className="bg-stone-500 text-white mc-block mc-btn flex-1 uppercase text-sm tracking-widest font-bold">Back to Hub</button>
+                <button onClick={onQuit} className="bg-stone-500 text-white mc-block mc-btn flex-1 uppercase text-sm tracking-widest font-bold">{t('play.backToHub')}</button>
             </div>
         </div>
     );
 };
 
-export const ResultsScreen: React.FC<{ result: TestResult, isTest: boolean, onHome: () => void, onRetry: () => void, isLocked: boolean }> = ({ result, isTest, onHome, onRetry, isLocked }) => {
+export const ResultsScreen: React.FC<{ result: TestResult, isTest: boolean, settings: Settings, playerName: string, onHome: () => void, onRetry: () => void, isLocked: boolean }> = ({ result, isTest, settings, playerName, onHome, onRetry, isLocked }) => {
     return (
         <div className="h-full flex flex-col items-center justify-center p-8 bg-stone-300 mc-grid-bg">
             <div className="bg-white mc-block p-12 w-full max-w-md flex flex-col items-center gap-8 shadow-[0_20px_50px_rgba(0,0,0,0.3)]">
-                <h2 className="pixel-font text-3xl text-stone-900 uppercase text-center">{isTest ? 'Trial Report' : 'HERO IDRIS!'}</h2>
-                <div className="text-[140px] mb-4 floating drop-shadow-2xl">{result.rating === 'Diamond' ? '💎' : '🪵'}</div>
+                <h2 className="pixel-font text-3xl text-stone-900 uppercase text-center">{isTest ? t('results.trial') : t('results.hero', { name: playerName })}</h2>
+                {isTest && <p className="font-black uppercase text-stone-700 -mt-4">{testName(result.gameType, settings)}</p>}
+                <div className="text-[140px] mb-4 floating drop-shadow-2xl">{MasteryIcons[result.rating]}</div>
                 <div className="text-center">
-                    <p className={`pixel-font text-3xl ${MasteryColors[result.rating]}`}>{result.rating} Mastery</p>
-                    <p className="text-stone-700 font-black mt-4 text-2xl">Accuracy: {result.score}%</p>
+                    <p className={`pixel-font text-3xl ${MasteryColors[result.rating]}`}>{t('results.mastery', { rating: ratingName(result.rating) })}</p>
+                    <p className="text-stone-700 font-black mt-4 text-2xl">{t('results.accuracy', { score: result.score })}</p>
+                    <p className="text-stone-500 font-bold mt-2">{t('results.detail', { correct: result.correct, questions: result.questions, seconds: result.secondsPerQuestion })}</p>
                 </div>
                 <div className="flex flex-col gap-4 w-full">
-                    {!isLocked && <button onClick={onRetry} className="bg-green-600 text-white mc-block mc-btn uppercase text-lg shadow-lg active:translate-y-1">Play Again</button>}
-                    <button onClick={onHome} className="bg-stone-500 text-white mc-block mc-btn uppercase text-lg shadow-lg active:translate-y-1">Return Hub</button>
+                    {!isLocked && <button onClick={onRetry} className="bg-green-600 text-white mc-block mc-btn uppercase text-lg shadow-lg active:translate-y-1">{t('results.playAgain')}</button>}
+                    <button onClick={onHome} className="bg-stone-500 text-white mc-block mc-btn uppercase text-lg shadow-lg active:translate-y-1">{t('results.home')}</button>
                 </div>
             </div>
         </div>
     );
 };
 
-export const ShopScreen: React.FC<{ emeralds: number, unlockedItems: string[], equippedItem: string, onBuy: (p: number, i: string) => void, onBack: () => void }> = ({ emeralds, unlockedItems, equippedItem, onBuy, onBack }) => {
+export const ShopScreen: React.FC<{ emeralds: number, unlockedItems: string[], inventory: Record<string, number>, equippedItem: string, equippedTile: string | null, onBuy: (p: number, i: string) => void, onBuyBlock: (p: number, i: string) => void, onBack: () => void }> = ({ emeralds, unlockedItems, inventory, equippedItem, equippedTile, onBuy, onBuyBlock, onBack }) => {
     return (
         <div className="h-full flex flex-col p-4 bg-stone-300 overflow-hidden">
-            <h2 className="pixel-font text-2xl mb-8 text-stone-900 text-center uppercase tracking-widest border-b-4 border-stone-400 pb-4">VILLAGE CHEST</h2>
+            <h2 className="pixel-font text-2xl mb-8 text-stone-900 text-center uppercase tracking-widest border-b-4 border-stone-400 pb-4">{t('shop.title')}</h2>
             <div className="grid grid-cols-2 md:grid-cols-3 gap-6 overflow-y-auto mb-6 p-4">
-                {SHOP_ITEMS.map(item => (
-                    <button key={item.id} onClick={() => onBuy(item.price, item.id)} className={`mc-block p-8 flex flex-col items-center gap-4 transition-all active:scale-95 ${equippedItem === item.id ? 'bg-yellow-200 border-yellow-600 scale-105 shadow-xl' : 'bg-stone-50 shadow-md'}`}>
-                        <span className="text-6xl">{item.icon}</span>
-                        <span className="text-sm font-black text-stone-900 uppercase">{item.name}</span>
-                        <div className="bg-black/10 px-4 py-2 mc-block w-full text-center">
-                            <span className="text-xs pixel-font text-green-700">{unlockedItems.includes(item.id) ? (equippedItem === item.id ? 'EQUIPPED' : 'USE NOW') : `${item.price} 🟩`}</span>
+                {SHOP_ITEMS.map(item => {
+                    const isEquipped = equippedItem === item.id || equippedTile === item.id;
+                    return (
+                        <button key={item.id} onClick={() => onBuy(item.price, item.id)} className={`mc-block p-8 flex flex-col items-center gap-4 transition-all active:scale-95 ${isEquipped ? 'bg-yellow-200 border-yellow-600 scale-105 shadow-xl' : 'bg-stone-50 shadow-md'}`}>
+                            <span className="text-6xl">{item.icon}</span>
+                            <span className="text-sm font-black text-stone-900 uppercase">{itemName(item)}</span>
+                            <div className="bg-black/10 px-4 py-2 mc-block w-full text-center">
+                                <span className="text-xs pixel-font text-green-700">{unlockedItems.includes(item.id) ? (isEquipped ? t('shop.equipped') : t('shop.useNow')) : `${item.price} 🟩`}</span>
+                            </div>
+                            {item.kind === 'tile' && unlockedItems.includes(item.id) && (
+                                <div 
+                                    onClick={e => { e.stopPropagation(); onBuyBlock(item.price, item.id); }} 
+                                    className={`px-4 py-2 mc-block w-full text-center text-[10px] pixel-font ${emeralds >= item.price ? 'bg-green-600 text-white' : 'bg-stone-300 text-stone-500'}`}
+                                >
+                                    {t('shop.buyBlock', { count: inventory[item.id] || 0, price: item.price })}
+                                </div>
+                            )}
+                        </button>
+                    );
+                })}
+            </div>
+            <button onClick={onBack} className="mt-auto mc-btn mc-block bg-stone-800 text-white uppercase text-2xl h-24 tracking-widest font-black">{t('shop.close')}</button>
+        </div>
+    );
+};
+
+const CHANNELS: AudioChannel[] = ['voice', 'sfx', 'music'];
+
+// Choices offered for each unit; switching unit starts from the middle one
+const ROTATION_STEPS = {
+    wins: { threshold: [3, 5, 8], cooldown: [2, 3, 5] },
+    minutes: { threshold: [10, 15, 20], cooldown: [5, 10, 15] }
+};
+
+// Goal choices for each unit; switching unit starts from the middle one
+const GOAL_STEPS = {
+    answers: [10, 20, 30],
+    minutes: [5, 10, 15]
+};
+
+const DailyGoalSection: React.FC<{ settings: Settings, onUpdate: (s: Settings) => void }> = ({ settings, onUpdate }) => {
+    const goal = settings.dailyGoal;
+    const update = (changes: Partial<DailyGoal>) => onUpdate({ ...settings, dailyGoal: { ...goal, ...changes } });
+    return (
+        <section>
+            <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-orange-400 pl-4">{t('goal.title')}</p>
+            <div className="flex gap-4 mb-4">
+                {(['answers', 'minutes'] as const).map(u => <button key={u} onClick={() => update({ unit: u, target: GOAL_STEPS[u][1] })} className={`flex-1 p-4 mc-block text-sm font-black uppercase shadow-lg ${goal.unit === u ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{t(`goal.${u}`)}</button>)}
+            </div>
+            <div className="flex gap-4 mb-6">
+                {GOAL_STEPS[goal.unit].map(n => <button key={n} onClick={() => update({ target: n })} className={`flex-1 p-6 mc-block font-black text-xl shadow-lg ${goal.target === n ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{goal.unit === 'answers' ? n : t('goal.minutesValue', { n })}</button>)}
+            </div>
+            <div className="flex gap-6">
+                {[false, true].map(off => <button key={String(off)} onClick={() => onUpdate({ ...settings, noPenalties: off })} className={`flex-1 p-6 mc-block text-sm font-black uppercase shadow-lg ${settings.noPenalties === off ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{off ? t('goal.penaltiesOff') : t('goal.penaltiesOn')}</button>)}
+            </div>
+            <p className="text-xs text-stone-500 mt-3">{settings.noPenalties ? t('goal.penaltiesNote') : t('goal.heartsNote', { n: HEART_REFILL_MINUTES })}</p>
+        </section>
+    );
+};
+
+const RotationSection: React.FC<{ settings: Settings, onUpdate: (s: Settings) => void }> = ({ settings, onUpdate }) => {
+    const rotation = settings.rotation;
+    const update = (changes: Partial<RotationSettings>) => onUpdate({ ...settings, rotation: { ...rotation, ...changes } });
+    const changeUnit = (unit: RotationSettings['unit']) => update({ unit, threshold: ROTATION_STEPS[unit].threshold[1], cooldown: ROTATION_STEPS[unit].cooldown[1] });
+    const toggleMode = (mode: PlayMode) => update({ modes: rotation.modes.includes(mode) ? rotation.modes.filter(m => m !== mode) : [...rotation.modes, mode] });
+    const amount = (n: number) => t(rotation.unit === 'wins' ? 'rotation.winsValue' : 'rotation.minutesValue', { n });
+    return (
+        <section>
+            <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-amber-500 pl-4">{t('rotation.title')}</p>
+            <div className="flex gap-6 mb-6">
+                {[true, false].map(on => <button key={String(on)} onClick={() => update({ enabled: on })} className={`flex-1 p-8 mc-block text-lg font-black uppercase shadow-lg ${rotation.enabled === on ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{on ? t('rotation.on') : t('rotation.off')}</button>)}
+            </div>
+            <div className={`flex flex-col gap-4 text-stone-900 ${rotation.enabled ? '' : 'opacity-40 pointer-events-none'}`}>
+                <div className="flex gap-4">
+                    {(['wins', 'minutes'] as const).map(u => <button key={u} onClick={() => changeUnit(u)} className={`flex-1 p-4 mc-block text-sm font-black uppercase shadow-lg ${rotation.unit === u ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{t(`rotation.${u}`)}</button>)}
+                </div>
+                {(['threshold', 'cooldown'] as const).map(key => (
+                    <div key={key} className="flex items-center justify-between gap-4 font-bold text-sm uppercase">
+                        <span className="w-1/3">{t(`rotation.${key}`)}</span>
+                        <div className="flex-1 flex gap-3">
+                            {ROTATION_STEPS[rotation.unit][key].map(n => <button key={n} onClick={() => update({ [key]: n })} className={`flex-1 p-3 mc-block text-xs font-black uppercase ${rotation[key] === n ? 'bg-stone-900 text-white' : 'bg-white'}`}>{amount(n)}</button>)}
                         </div>
-                    </button>
+                    </div>
                 ))}
+                <div className="flex items-center justify-between gap-4 font-bold text-sm uppercase">
+                    <span className="w-1/3">{t('rotation.modes')}</span>
+                    <div className="flex-1 flex gap-3">
+                        {Object.values(PlayMode).map(m => <button key={m} onClick={() => toggleMode(m)} className={`flex-1 p-3 mc-block text-[10px] font-black uppercase ${rotation.modes.includes(m) ? 'bg-stone-900 text-white' : 'bg-white'}`}>{t(`mode.${m}`)}</button>)}
+                    </div>
+                </div>
+                {rotation.unit === 'wins' && <p className="text-xs text-stone-500">{t('rotation.winsNote', { n: ANSWERS_PER_WIN })}</p>}
             </div>
-            <button onClick={onBack} className="mt-auto mc-btn mc-block bg-stone-800 text-white uppercase text-2xl h-24 tracking-widest font-black">Close Shop</button>
-        </div>
+            <div className="flex gap-6 mt-6">
+                {[false, true].map(on => <button key={String(on)} onClick={() => onUpdate({ ...settings, dailyPlan: on })} className={`flex-1 p-6 mc-block text-sm font-black uppercase shadow-lg ${settings.dailyPlan === on ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{on ? t('rotation.planOn') : t('rotation.planOff')}</button>)}
+            </div>
+            <p className="text-xs text-stone-500 mt-3">{t('rotation.planNote', { n: PLAN_SIZE, answers: PLAN_ANSWERS })}</p>
+        </section>
+    );
+};
+
+const SoundSection: React.FC<{ settings: Settings, onUpdate: (s: Settings) => void }> = ({ settings, onUpdate }) => {
+    const updateChannel = (channel: AudioChannel, changes: Partial<ChannelSettings>) =>
+        onUpdate({ ...settings, mixer: { ...settings.mixer, [channel]: { ...settings.mixer[channel], ...changes } } });
+    return (
+        <section>
+            <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-teal-500 pl-4">{t('sound.title')}</p>
+            <div className="flex gap-6 mb-6">
+                {[true, false].map(on => <button key={String(on)} onClick={() => onUpdate({ ...settings, soundOn: on })} className={`flex-1 p-8 mc-block text-lg font-black uppercase shadow-lg ${settings.soundOn === on ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{on ? t('sound.on') : t('sound.off')}</button>)}
+            </div>
+            <div className={`flex flex-col gap-4 text-stone-900 ${settings.soundOn ? '' : 'opacity-40 pointer-events-none'}`}>
+                {CHANNELS.map(channel => {
+                    const mix = settings.mixer[channel];
+                    return (
+                        <div key={channel} className="flex items-center justify-between gap-4 font-bold text-sm uppercase">
+                            <span className="w-28">{t(`sound.${channel}`)}</span>
+                            <input type="range" min={0} max={1} step={0.1} value={mix.volume} disabled={mix.muted} onChange={e => updateChannel(channel, { volume: Number(e.target.value) })} className="flex-1" aria-label={t(`sound.${channel}`)} />
+                            <button onClick={() => updateChannel(channel, { muted: !mix.muted })} className={`w-24 p-3 mc-block text-xs font-black uppercase ${mix.muted ? 'bg-stone-900 text-white' : 'bg-white'}`}>{mix.muted ? t('sound.muted') : t('sound.mute')}</button>
+                        </div>
+                    );
+                })}
+            </div>
+        </section>
+    );
+};
+
+const VoiceSection: React.FC<{ settings: Settings, onUpdate: (s: Settings) => void }> = ({ settings, onUpdate }) => {
+    const speech = settings.speech;
+    const update = (key: keyof Settings['speech'], val: any) => onUpdate({ ...settings, speech: { ...speech, [key]: val } });
+    const [deviceVoices, setDeviceVoices] = useState(getDeviceVoices);
+
+    // Browsers load their voice list asynchronously
+    useEffect(() => {
+        if (typeof window === 'undefined' || !window.speechSynthesis) return;
+        const refresh = () => setDeviceVoices(getDeviceVoices());
+        window.speechSynthesis.addEventListener('voiceschanged', refresh);
+        return () => window.speechSynthesis.removeEventListener('voiceschanged', refresh);
+    }, []);
+
+    const voicesForLang = deviceVoices.filter(v => v.lang.startsWith(speech.lang.split('-')[0]));
+    // Accents on offer follow the game language picked above
+    const accents = SPEECH_LANGUAGES.filter(l => l.code.startsWith(settings.language));
+
+    return (
+        <section>
+            <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-pink-500 pl-4">{t('voice.title')}</p>
+            <div className="grid grid-cols-4 gap-3 mb-6">
+                {(['auto', 'gemini', 'device', 'off'] as const).map(p => <button key={p} onClick={() => update('provider', p)} className={`p-4 mc-block text-xs font-black uppercase shadow-lg ${speech.provider === p ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{t(`voice.${p}`)}</button>)}
+            </div>
+            <div className="flex flex-col gap-4 text-stone-900">
+                <label className="flex items-center justify-between gap-4 font-bold text-sm uppercase">{t('voice.accent')}
+                    <select value={speech.lang} onChange={e => update('lang', e.target.value)} className="mc-block p-2 bg-white">
+                        {accents.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+                    </select>
+                </label>
+                {speech.provider !== 'device' && (
+                    <label className="flex items-center justify-between gap-4 font-bold text-sm uppercase">{t('voice.aiVoice')}
+                        <select value={speech.geminiVoice} onChange={e => update('geminiVoice', e.target.value)} className="mc-block p-2 bg-white">
+                            {GEMINI_VOICES.map(v => <option key={v} value={v}>{v}</option>)}
+                        </select>
+                    </label>
+                )}
+                {speech.provider !== 'gemini' && (
+                    <label className="flex items-center justify-between gap-4 font-bold text-sm uppercase">{t('voice.deviceVoice')}
+                        <select value={speech.deviceVoice} onChange={e => update('deviceVoice', e.target.value)} className="mc-block p-2 bg-white max-w-[60%]">
+                            <option value="">{t('voice.default')}</option>
+                            {voicesForLang.map(v => <option key={v.voiceURI} value={v.voiceURI}>{v.name}</option>)}
+                        </select>
+                    </label>
+                )}
+                <label className="flex items-center justify-between gap-4 font-bold text-sm uppercase">{t('voice.speed', { n: speech.rate.toFixed(1) })}
+                    <input type="range" min={0.5} max={1.5} step={0.1} value={speech.rate} onChange={e => update('rate', Number(e.target.value))} className="w-1/2" />
+                </label>
+                <label className="flex items-center justify-between gap-4 font-bold text-sm uppercase">{t('voice.pitch', { n: speech.pitch.toFixed(1) })}
+                    <input type="range" min={0.5} max={2} step={0.1} value={speech.pitch} onChange={e => update('pitch', Number(e.target.value))} className="w-1/2" />
+                </label>
+                <button onClick={() => speak(t('voice.testLine'))} className="p-4 mc-block bg-white font-black uppercase shadow-lg">{t('voice.test')}</button>
+            </div>
+        </section>
     );
 };
 
-export const ParentPanel: React.FC<{ settings: Settings, onUpdate: (s: Settings) => void, onReset: () => void, onBack: () => void }> = ({ settings, onUpdate, onReset, onBack }) => {
+export const ParentPanel: React.FC<{ settings: Settings, onUpdate: (s: Settings) => void, onReset: () => void, onOpenProgress: () => void, onOpenWorksheet: () => void, snapshotTakenAt: number | null, onExport: () => void, onImport: (state: AppState, settings: Settings) => void, onUndoReset: () => void, onBack: () => void }> = ({ settings, onUpdate, onReset, onOpenProgress, onOpenWorksheet, snapshotTakenAt, onExport, onImport, onUndoReset, onBack }) => {
     const update = (key: keyof Settings, val: any) => onUpdate({ ...settings, [key]: val });
+    // Switching language also moves the voice over to it, on the browser's default voice
+    const changeLanguage = (language: Language) => onUpdate({
+        ...settings,
+        language,
+        speech: { ...settings.speech, lang: getLanguageInfo(language).speechLang, deviceVoice: '' }
+    });
     return (
         <div className="h-full flex flex-col p-8 bg-stone-100 overflow-y-auto">
-            <h2 className="pixel-font text-2xl mb-10 text-stone-900 text-center uppercase border-b-4 border-stone-800 pb-6 tracking-tight">PARENT CONTROLS</h2>
+            <h2 className="pixel-font text-2xl mb-10 text-stone-900 text-center uppercase border-b-4 border-stone-800 pb-6 tracking-tight">{t('parent.title')}</h2>
             <div className="flex flex-col gap-12 max-w-2xl mx-auto w-full">
                 <section>
-                    <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-orange-500 pl-4">Difficulty Level</p>
+                    <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-indigo-500 pl-4">{t('parent.language')}</p>
                     <div className="flex gap-6">
-                        {[10, 20].map(v => <button key={v} onClick={() => update('range', v)} className={`flex-1 p-8 mc-block font-black text-3xl shadow-lg ${settings.range === v ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>0 - {v}</button>)}
+                        {LANGUAGES.map(l => <button key={l.code} onClick={() => changeLanguage(l.code)} className={`flex-1 p-8 mc-block text-lg font-black shadow-lg ${settings.language === l.code ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{l.label}</button>)}
                     </div>
                 </section>
                 <section>
-                    <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-blue-500 pl-4">Math Skills</p>
+                    <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-orange-500 pl-4">{t('parent.difficulty')}</p>
                     <div className="flex gap-6">
-                        {['plus', 'mixed'].map(o => <button key={o} onClick={() => update('ops', o)} className={`flex-1 p-8 mc-block text-lg font-black uppercase shadow-lg ${settings.ops === o ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{o === 'plus' ? 'Addition Only' : 'Mixed (+ / −)'}</button>)}
+                        {RANGES.map(v => <button key={v} onClick={() => update('range', v)} className={`flex-1 p-6 mc-block font-black text-2xl shadow-lg ${settings.range === v ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>0 - {v}</button>)}
                     </div>
                 </section>
                 <section>
-                    <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-purple-500 pl-4">Timer Speed</p>
+                    <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-blue-500 pl-4">{t('parent.skills')}</p>
                     <div className="flex gap-6">
-                        {[30, 60, 90].map(t => <button key={t} onClick={() => update('testTimer', t)} className={`flex-1 p-8 mc-block font-black text-2xl shadow-lg ${settings.testTimer === t ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{t}s</button>)}
+                        {['plus', 'minus', 'mixed'].map(o => <button key={o} onClick={() => update('ops', o)} className={`flex-1 p-8 mc-block text-lg font-black uppercase shadow-lg ${settings.ops === o ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{o === 'plus' ? t('parent.opsPlus') : o === 'minus' ? t('parent.opsMinus') : t('parent.opsMixed')}</button>)}
+                    </div>
+                    {settings.ops === 'minus' && <p className="text-xs text-stone-500 mt-3">{t('parent.opsMinusNote', { a: gameName(GameType.MAKE_TEN), b: gameName(GameType.DOUBLES) })}</p>}
+                </section>
+                <section>
+                    <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-amber-700 pl-4">{t('parent.bonds', { game: gameName(GameType.MAKE_TEN) })}</p>
+                    <div className="flex gap-6">
+                        {BOND_TARGETS.map(v => <button key={v} onClick={() => update('bondTarget', v)} className={`flex-1 p-6 mc-block font-black text-2xl shadow-lg ${settings.bondTarget === v ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{t('parent.bondsTo', { n: v })}</button>)}
+                    </div>
+                </section>
+                <CustomFactsSection settings={settings} onUpdate={onUpdate} />
+                <section>
+                    <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-purple-500 pl-4">{t('parent.timer')}</p>
+                    <div className="flex gap-6">
+                        {[30, 60, 90].map(secs => <button key={secs} onClick={() => update('testTimer', secs)} className={`flex-1 p-8 mc-block font-black text-2xl shadow-lg ${settings.testTimer === secs ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{secs}s</button>)}
+                    </div>
+                </section>
+                <section>
+                    <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-green-500 pl-4">{t('parent.session')}</p>
+                    <div className="flex gap-6">
+                        {[3, 5, 10, 15].map(m => <button key={m} onClick={() => update('sessionTimer', m)} className={`flex-1 p-8 mc-block font-black text-2xl shadow-lg ${settings.sessionTimer === m ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{m}m</button>)}
+                    </div>
+                </section>
+                <section>
+                    <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-red-500 pl-4">{t('parent.oneHanded')}</p>
+                    <div className="flex gap-6">
+                        {(['left', 'off', 'right'] as const).map(h => <button key={h} onClick={() => update('oneHandedMode', h)} className={`flex-1 p-8 mc-block text-lg font-black uppercase shadow-lg ${settings.oneHandedMode === h ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{h === 'off' ? t('parent.handsBoth') : h === 'left' ? t('parent.handsLeft') : t('parent.handsRight')}</button>)}
+                    </div>
+                </section>
+                <section>
+                    <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-yellow-500 pl-4">{t('parent.hints')}</p>
+                    <div className="flex gap-6">
+                        {[false, true].map(a => <button key={String(a)} onClick={() => update('assistMode', a)} className={`flex-1 p-8 mc-block text-lg font-black uppercase shadow-lg ${settings.assistMode === a ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{a ? t('parent.hintsOn') : t('parent.hintsOff')}</button>)}
+                    </div>
+                </section>
+                <section>
+                    <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-cyan-500 pl-4">{t('parent.typed')}</p>
+                    <div className="grid grid-cols-2 gap-6">
+                        {Object.values(GameType).map(g => <button key={g} onClick={() => update('typedAnswers', { ...settings.typedAnswers, [g]: !settings.typedAnswers[g] })} className={`p-6 mc-block text-sm font-black uppercase shadow-lg ${settings.typedAnswers[g] ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{settings.typedAnswers[g] ? '⌨️ ' : ''}{gameName(g)}</button>)}
                     </div>
+                    <p className="text-xs text-stone-500 mt-3">{t('parent.typedNote')}</p>
                 </section>
+                <DailyGoalSection settings={settings} onUpdate={onUpdate} />
+                <RotationSection settings={settings} onUpdate={onUpdate} />
+                <SoundSection settings={settings} onUpdate={onUpdate} />
+                <VoiceSection settings={settings} onUpdate={onUpdate} />
+                <BackupSection snapshotTakenAt={snapshotTakenAt} onExport={onExport} onImport={onImport} onUndoReset={onUndoReset} />
                 <div className="flex flex-col gap-6 mt-12 pt-12 border-t-4 border-stone-300">
-                    <button onClick={onReset} className="bg-red-700 text-white mc-block mc-btn text-sm font-black uppercase tracking-[0.2em] py-8 shadow-xl">ERASE PROGRESS</button>
-                    <button onClick={onBack} className="bg-stone-900 text-white mc-block mc-btn uppercase text-2xl py-8 tracking-widest font-black shadow-xl">SAVE & EXIT</button>
+                    <button onClick={onOpenProgress} className="bg-blue-700 text-white mc-block mc-btn uppercase text-lg py-8 tracking-widest font-black shadow-xl">{t('parent.progress')}</button>
+                    <button onClick={onOpenWorksheet} className="bg-teal-700 text-white mc-block mc-btn uppercase text-lg py-8 tracking-widest font-black shadow-xl">{t('parent.worksheet')}</button>
+                    <button onClick={onReset} className="bg-red-700 text-white mc-block mc-btn text-sm font-black uppercase tracking-[0.2em] py-8 shadow-xl">{t('parent.erase')}</button>
+                    <button onClick={onBack} className="bg-stone-900 text-white mc-block mc-btn uppercase text-2xl py-8 tracking-widest font-black shadow-xl">{t('parent.saveExit')}</button>
                 </div>
             </div>
         </div>
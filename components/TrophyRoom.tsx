@@ -0,0 +1,63 @@
+import React, { useEffect } from 'react';
+import { AppState, Settings } from '../types';
+import { ACHIEVEMENTS, Achievement } from '../services/achievements';
+import { playSFX } from '../services/audio';
+import { speak } from '../services/speech';
+import { t, achievementName, achievementDescription } from '../services/i18n';
+
+export const TrophyRoom: React.FC<{ state: AppState, settings: Settings, onBack: () => void }> = ({ state, settings, onBack }) => {
+    const unlockedCount = ACHIEVEMENTS.filter(a => state.achievements[a.id]).length;
+    return (
+        <div className="h-full flex flex-col p-4 bg-stone-800 overflow-hidden">
+            <h2 className="pixel-font text-2xl mb-2 text-yellow-400 text-center uppercase tracking-widest drop-shadow-md">{t('trophies.title')}</h2>
+            <p className="text-center pixel-font text-[8px] text-white mb-4 uppercase">{t('trophies.count', { n: unlockedCount, total: ACHIEVEMENTS.length })}</p>
+
+            <div className="flex-1 overflow-y-auto grid grid-cols-1 md:grid-cols-2 gap-4 content-start">
+                {ACHIEVEMENTS.map(a => {
+                    const unlockedAt = state.achievements[a.id];
+                    const { value, target } = a.progress(state, settings);
+                    return (
+                        <div key={a.id} className={`mc-block p-4 flex items-center gap-4 ${unlockedAt ? 'bg-yellow-100' : 'bg-stone-300'} text-stone-900`}>
+                            <span className={`text-5xl ${unlockedAt ? 'floating' : 'grayscale opacity-40'}`}>{a.icon}</span>
+                            <div className="flex-1 flex flex-col gap-1">
+                                <span className="font-black uppercase">{achievementName(a)}</span>
+                                <span className="text-xs">{achievementDescription(a)}</span>
+                                {unlockedAt ? (
+                                    <span className="text-[10px] font-bold text-green-700 uppercase">{t('trophies.earned', { date: new Date(unlockedAt).toLocaleDateString() })}</span>
+                                ) : (
+                                    <div className="xp-bar-container mt-1">
+                                        <div className="xp-bar-fill" style={{ width: `${Math.min(100, (value / target) * 100)}%` }} />
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <button onClick={onBack} className="mt-4 mc-btn mc-block bg-stone-500 text-white w-full uppercase">{t('common.back')}</button>
+        </div>
+    );
+};
+
+// Shown over any screen when an achievement unlocks; tapping it or waiting moves on to the next
+export const AchievementToast: React.FC<{ achievement: Achievement, onDone: () => void }> = ({ achievement, onDone }) => {
+    useEffect(() => {
+        playSFX('victory');
+        speak(`${t('trophies.unlocked')} ${achievementName(achievement)}`);
+        const timer = setTimeout(onDone, 4000);
+        return () => clearTimeout(timer);
+    }, [achievement]);
+
+    return (
+        <button onClick={onDone} className="fixed top-28 left-1/2 -translate-x-1/2 z-50 w-80 max-w-[90%]">
+            <div className="unlock-pop bg-yellow-400 mc-block p-4 flex items-center gap-4 shadow-2xl text-stone-900">
+                <span className="text-5xl floating">{achievement.icon}</span>
+                <div className="flex flex-col items-start text-start">
+                    <span className="pixel-font text-[8px] uppercase">{t('trophies.unlocked')}</span>
+                    <span className="font-black text-lg uppercase">{achievementName(achievement)}</span>
+                </div>
+            </div>
+        </button>
+    );
+};
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { AppState } from '../types';
+import { SHOP_ITEMS, VILLAGE_COLUMNS } from '../constants';
+import { t } from '../services/i18n';
+import { availableCount, unlockedPlotCount, levelForPlot } from '../services/village';
+
+export const VillageScreen: React.FC<{ state: AppState, onPlace: (index: number, itemId: string) => void, onClear: (index: number) => void, onOpenShop: () => void, onBack: () => void }> = ({ state, onPlace, onClear, onOpenShop, onBack }) => {
+    const [selected, setSelected] = useState<string | null>(null);
+    const openPlots = unlockedPlotCount(state.level);
+    const owned = SHOP_ITEMS.filter(item => availableCount(state, item.id) > 0 || state.village.includes(item.id));
+
+    const handlePlot = (index: number) => {
+        if (index >= openPlots) return;
+        if (selected && availableCount(state, selected) > 0 && state.village[index] !== selected) {
+            onPlace(index, selected);
+        } else if (state.village[index]) {
+            onClear(index);
+        }
+    };
+
+    return (
+        <div className="h-full flex flex-col p-4 bg-green-700 overflow-hidden">
+            <h2 className="pixel-font text-2xl mb-4 text-white text-center uppercase tracking-widest drop-shadow-md">{t('village.title')}</h2>
+            <p className="text-center pixel-font text-[8px] text-yellow-300 mb-4 uppercase">{t('village.plots', { n: openPlots })}</p>
+
+            <div className="flex-1 overflow-y-auto flex justify-center">
+                <div className="grid gap-1 mc-block bg-green-900 p-2 h-fit" style={{ gridTemplateColumns: `repeat(${VILLAGE_COLUMNS}, minmax(0, 1fr))` }}>
+                    {state.village.map((itemId, i) => {
+                        const isOpen = i < openPlots;
+                        const item = SHOP_ITEMS.find(s => s.id === itemId);
+                        return (
+                            <button
+                                key={i}
+                                onClick={() => handlePlot(i)}
+                                disabled={!isOpen}
+                                className={`w-12 h-12 md:w-16 md:h-16 flex items-center justify-center text-3xl ${isOpen ? (item?.tileClass || 'bg-green-500') : 'bg-stone-700 opacity-60'}`}
+                            >
+                                {isOpen ? (item && item.kind === 'character' ? item.icon : '') : <span className="pixel-font text-[8px] text-white">L{levelForPlot(i)}</span>}
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+
+            <div className="bg-stone-800 mc-block p-3 mt-4 flex gap-3 overflow-x-auto">
+                {owned.length === 0 && (
+                    <button onClick={onOpenShop} className="flex-1 pixel-font text-[10px] text-white uppercase p-4">{t('village.empty')}</button>
+                )}
+                {owned.map(item => {
+                    const count = availableCount(state, item.id);
+                    return (
+                        <button
+                            key={item.id}
+                            onClick={() => setSelected(selected === item.id ? null : item.id)}
+                            className={`mc-block w-20 h-20 flex flex-col items-center justify-center shrink-0 ${selected === item.id ? 'bg-yellow-400' : 'bg-stone-100'} ${count === 0 ? 'opacity-40' : ''}`}
+                        >
+                            <span className="text-3xl">{item.icon}</span>
+                            <span className="pixel-font text-[8px] text-stone-900">x{count}</span>
+                        </button>
+                    );
+                })}
+            </div>
+            <p className="text-center text-[10px] text-white mt-2">{t('village.help')}</p>
+
+            <button onClick={onBack} className="mt-4 mc-btn mc-block bg-stone-800 text-white uppercase text-xl tracking-widest font-black">{t('common.back')}</button>
+        </div>
+    );
+};
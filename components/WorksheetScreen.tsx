@@ -0,0 +1,147 @@
+import React, { useMemo, useState } from 'react';
+import { Attempt, GameType, Settings } from '../types';
+import { playableGames } from '../games';
+import { PrintAid } from '../games/types';
+import { buildWorksheet, newWorksheetSeed, WorksheetOptions, WORKSHEET_SIZES } from '../services/worksheet';
+import { t, gameName } from '../services/i18n';
+
+// Drawn with borders and dots rather than fills, since browsers leave background colours out when printing
+const PrintedTenFrames: React.FC<{ counts: number[] }> = ({ counts }) => (
+    <div dir="ltr" className="flex gap-3">
+        {counts.map((count, i) => (
+            <div key={i} className="flex gap-1">
+                {[...Array(Math.max(1, Math.ceil(count / 10)))].map((_, frame) => (
+                    <div key={frame} className="grid grid-cols-5 border-2 border-black">
+                        {[...Array(10)].map((_, cell) => (
+                            <div key={cell} className="w-5 h-5 border border-stone-400 flex items-center justify-center text-xs leading-none">
+                                {frame * 10 + cell < count ? '●' : ''}
+                            </div>
+                        ))}
+                    </div>
+                ))}
+            </div>
+        ))}
+    </div>
+);
+
+const PrintedNumberLine: React.FC<{ from: number, to: number, mark: number }> = ({ from, to, mark }) => (
+    <div dir="ltr" className="flex border-t-2 border-black w-full">
+        {[...Array(to - from + 1)].map((_, i) => (
+            <div key={i} className="flex-1 flex flex-col items-center">
+                <div className="h-2 border-l border-black" />
+                <span className={`text-[10px] leading-none mt-1 ${from + i === mark ? 'border-2 border-black rounded-full px-1 font-black' : ''}`}>{from + i}</span>
+            </div>
+        ))}
+    </div>
+);
+
+const PrintedAid: React.FC<{ aid: PrintAid }> = ({ aid }) => aid.kind === 'tenFrames'
+    ? <PrintedTenFrames counts={aid.counts} />
+    : <PrintedNumberLine from={aid.from} to={aid.to} mark={aid.mark} />;
+
+const Toggle: React.FC<{ on: boolean, onClick: () => void, disabled?: boolean, children: React.ReactNode }> = ({ on, onClick, disabled, children }) => (
+    <button onClick={onClick} disabled={disabled} className={`p-4 mc-block text-sm font-black uppercase shadow-lg disabled:opacity-40 ${on ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{children}</button>
+);
+
+export const WorksheetScreen: React.FC<{ settings: Settings, attempts: Attempt[], playerName: string, onBack: () => void }> = ({ settings, attempts, playerName, onBack }) => {
+    const hasAnswers = attempts.length > 0;
+    const games = playableGames(settings);
+    const [options, setOptions] = useState<WorksheetOptions>(() => ({
+        seed: newWorksheetSeed(),
+        games: games.map(g => g.type),
+        count: WORKSHEET_SIZES[0],
+        focusWeak: hasAnswers
+    }));
+    const [showAids, setShowAids] = useState(true);
+    const [showKey, setShowKey] = useState(true);
+    const problems = useMemo(() => buildWorksheet(options, settings, attempts, Date.now()), [options, settings, attempts]);
+
+    const update = (changes: Partial<WorksheetOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+    // Keeps the games in hub order, whatever order they were picked in
+    const toggleGame = (type: GameType) => update({
+        games: games.map(g => g.type).filter(g => g === type ? !options.games.includes(g) : options.games.includes(g))
+    });
+
+    return (
+        <div className="h-full flex flex-col p-8 bg-stone-100 overflow-y-auto print:h-auto print:overflow-visible print:p-0 print:bg-white">
+            <div className="flex flex-col gap-8 max-w-3xl mx-auto w-full mb-10 print:hidden">
+                <h2 className="pixel-font text-2xl text-stone-900 text-center uppercase border-b-4 border-stone-800 pb-6 tracking-tight">{t('worksheet.title')}</h2>
+                <section>
+                    <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-orange-500 pl-4">{t('worksheet.games')}</p>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                        {games.map(g => <Toggle key={g.type} on={options.games.includes(g.type)} onClick={() => toggleGame(g.type)}>{g.hub.icon} {gameName(g.type)}</Toggle>)}
+                    </div>
+                </section>
+                <section>
+                    <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-blue-500 pl-4">{t('worksheet.count')}</p>
+                    <div className="flex gap-4">
+                        {WORKSHEET_SIZES.map(n => <button key={n} onClick={() => update({ count: n })} className={`flex-1 p-6 mc-block font-black text-2xl shadow-lg ${options.count === n ? 'bg-stone-900 text-white' : 'bg-white text-stone-900'}`}>{n}</button>)}
+                    </div>
+                </section>
+                <section>
+                    <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-green-500 pl-4">{t('worksheet.extras')}</p>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <Toggle on={showAids} onClick={() => setShowAids(!showAids)}>{t('worksheet.aids')}</Toggle>
+                        <Toggle on={showKey} onClick={() => setShowKey(!showKey)}>{t('worksheet.answerKey')}</Toggle>
+                        <Toggle on={options.focusWeak} disabled={!hasAnswers} onClick={() => update({ focusWeak: !options.focusWeak })}>{t('worksheet.focus', { name: playerName })}</Toggle>
+                    </div>
+                    {!hasAnswers && <p className="text-xs text-stone-500 mt-3">{t('worksheet.focusNone')}</p>}
+                </section>
+                <section>
+                    <p className="font-black text-lg uppercase text-stone-700 mb-4 border-l-8 border-purple-500 pl-4">{t('worksheet.seed')}</p>
+                    <div className="flex gap-4">
+                        <input
+                            type="number"
+                            min={0}
+                            value={options.seed}
+                            onChange={e => update({ seed: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                            className="flex-1 p-4 mc-block bg-white text-stone-900 text-2xl font-black"
+                        />
+                        <button onClick={() => update({ seed: newWorksheetSeed() })} className="p-4 mc-block bg-white text-stone-900 font-black uppercase shadow-lg">🎲 {t('worksheet.newSeed')}</button>
+                    </div>
+                    <p className="text-xs text-stone-500 mt-3">{t(options.focusWeak ? 'worksheet.seedNoteFocus' : 'worksheet.seedNote')}</p>
+                </section>
+                <div className="flex gap-4">
+                    <button onClick={onBack} className="flex-1 bg-stone-500 text-white mc-block mc-btn uppercase font-black">{t('common.back')}</button>
+                    <button onClick={() => window.print()} disabled={problems.length === 0} className="flex-[2] bg-green-600 text-white mc-block mc-btn uppercase font-black disabled:opacity-40">🖨️ {t('worksheet.print')}</button>
+                </div>
+                {problems.length === 0 && <p className="text-sm font-bold text-red-700">{t('worksheet.noGames')}</p>}
+            </div>
+
+            {problems.length > 0 && (
+                <div className="bg-white text-black max-w-3xl mx-auto w-full p-10 shadow-xl print:shadow-none print:p-0 print:max-w-none">
+                    <div className="flex justify-between items-end border-b-2 border-black pb-3 mb-8 gap-6">
+                        <h1 className="text-2xl font-black">{t('worksheet.heading', { name: playerName })}</h1>
+                        <span className="text-sm whitespace-nowrap">{t('worksheet.date')} ____________</span>
+                    </div>
+                    <ol className="grid grid-cols-2 gap-x-10 gap-y-8">
+                        {problems.map((p, i) => (
+                            <li key={i} className="flex flex-col gap-3 break-inside-avoid">
+                                <div className="flex gap-3 items-baseline">
+                                    <span className="text-sm text-stone-500 w-6">{i + 1}.</span>
+                                    <span dir="ltr" className="text-2xl font-bold">{p.text}</span>
+                                </div>
+                                {showAids && p.aid && <div className="ps-9"><PrintedAid aid={p.aid} /></div>}
+                            </li>
+                        ))}
+                    </ol>
+                    <p className="text-xs text-stone-500 mt-10">{t('worksheet.footer', { seed: options.seed })}</p>
+
+                    {showKey && (
+                        <section className="mt-12 pt-8 border-t-2 border-dashed border-stone-400 break-before-page print:mt-0 print:pt-0 print:border-0">
+                            <h2 className="text-xl font-black mb-6">{t('worksheet.keyHeading', { seed: options.seed })}</h2>
+                            <ol className="grid grid-cols-3 gap-x-8 gap-y-3">
+                                {problems.map((p, i) => (
+                                    <li key={i} className="flex gap-3 items-baseline">
+                                        <span className="text-sm text-stone-500 w-6">{i + 1}.</span>
+                                        <span dir="ltr" className="font-bold">{p.text.replace('☐', String(p.answer))}</span>
+                                    </li>
+                                ))}
+                            </ol>
+                        </section>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,5 +1,25 @@
 
-import { AppState, Settings, PlayMode } from './types';
+import { AppState, Settings, PlayMode, ShopItem, Language, GameType, Classroom } from './types';
+
+// The village is an 8x8 grid; a level-1 player starts with the top two rows
+export const VILLAGE_COLUMNS = 8;
+export const VILLAGE_PLOTS = 64;
+export const VILLAGE_STARTING_PLOTS = 16;
+export const VILLAGE_PLOTS_PER_LEVEL = 4;
+
+export const MAX_HEARTS = 3;
+export const HEART_REFILL_MINUTES = 20;
+
+// Emeralds for meeting the daily goal: this many per day of the streak, up to a week
+export const STREAK_BONUS_PER_DAY = 5;
+export const STREAK_BONUS_MAX_DAYS = 7;
+
+// Enough for the streak calendar; older days only matter through the streak count
+export const MAX_PRACTICE_DAYS = 60;
+
+// One entry per game. Every GameType has a module in games/, so this covers the registry.
+const perGame = <T,>(value: T): Record<string, T> =>
+    Object.fromEntries(Object.values(GameType).map(type => [type, value]));
 
 export const INITIAL_STATE: AppState = {
     emeralds: 0,
@@ -8,52 +28,122 @@ export const INITIAL_STATE: AppState = {
     testScores: {},
     unlockedItems: ['base-char'],
     equippedItem: 'base-char',
-    hearts: 3,
-    successCounts: {
-        MAKE_TEN: 0,
-        NUMBER_HOP: 0,
-        DOUBLES: 0,
-        COUNT_UP: 0
-    },
-    isLocked: {
-        MAKE_TEN: false,
-        NUMBER_HOP: false,
-        DOUBLES: false,
-        COUNT_UP: false
-    },
-    otherSuccessesSinceLock: {
-        MAKE_TEN: 0,
-        NUMBER_HOP: 0,
-        DOUBLES: 0,
-        COUNT_UP: 0
-    },
+    equippedTile: null,
+    inventory: {},
+    village: Array(VILLAGE_PLOTS).fill(null),
+    hearts: MAX_HEARTS,
+    heartsUpdatedAt: 0,
+    successCounts: perGame(0),
+    isLocked: perGame(false),
+    otherSuccessesSinceLock: perGame(0),
     currentPlayMode: PlayMode.TIMED,
-    streak: 0
+    streak: 0,
+    practiceDays: [],
+    achievements: {},
+    attempts: [],
+    testResults: []
 };
 
+export const RANGES: Settings['range'][] = [10, 20, 50, 100];
+export const BOND_TARGETS: Settings['bondTarget'][] = [5, 10, 20, 100];
+
+// Oldest attempts are dropped past this so the save stays small
+export const MAX_ATTEMPTS = 2000;
+export const MAX_TEST_RESULTS = 500;
+
+export const INITIAL_CLASSROOM: Classroom = {
+    assignments: [],
+    sync: { enabled: false, url: '', lastSyncedAt: null }
+};
+
+// How long a new assignment runs for unless the teacher picks another day
+export const ASSIGNMENT_DAYS = 7;
+
 export const INITIAL_SETTINGS: Settings = {
+    language: 'en',
     range: 10,
     ops: 'plus',
+    bondTarget: 10,
+    customFacts: { enabled: false, facts: [] },
     sessionTimer: 5,
     testTimer: 60,
     soundOn: true,
     oneHandedMode: 'off',
-    assistMode: false
+    assistMode: false,
+    typedAnswers: {},
+    speech: {
+        provider: 'auto',
+        geminiVoice: 'Zephyr',
+        deviceVoice: '',
+        rate: 1.0,
+        pitch: 1.2,
+        lang: 'en-US'
+    },
+    mixer: {
+        voice: { volume: 1.0, muted: false },
+        sfx: { volume: 0.8, muted: false },
+        music: { volume: 0.3, muted: false }
+    },
+    rotation: {
+        enabled: true,
+        unit: 'wins',
+        threshold: 5,
+        cooldown: 3,
+        modes: [PlayMode.TIMED, PlayMode.STREAK]
+    },
+    dailyPlan: false,
+    dailyGoal: { unit: 'answers', target: 20 },
+    noPenalties: false
 };
 
+export const GEMINI_VOICES = ['Zephyr', 'Puck', 'Kore', 'Aoede', 'Leda', 'Charon', 'Fenrir', 'Orus'];
+
+export const SPEECH_LANGUAGES = [
+    { code: 'en-US', label: 'English (US)' },
+    { code: 'en-GB', label: 'English (UK)' },
+    { code: 'fr-FR', label: 'Français' },
+    { code: 'ar-SA', label: 'العربية' }
+];
+
+// speechLang is the voice language picked when a parent switches the game language
+export const LANGUAGES: { code: Language, label: string, dir: 'ltr' | 'rtl', speechLang: string }[] = [
+    { code: 'en', label: 'English', dir: 'ltr', speechLang: 'en-US' },
+    { code: 'fr', label: 'Français', dir: 'ltr', speechLang: 'fr-FR' },
+    { code: 'ar', label: 'العربية', dir: 'rtl', speechLang: 'ar-SA' }
+];
+
+export const PROFILE_ICONS = ['🦊', '🐼', '🐸', '🦁', '🐙', '🦄'];
+
 export const CRAFT_OBJECTS = ['🧱', '🐶', '🍦', '💰', '🍎', '⚽', '🚗', '🐱', '🍪', '💎', '🧸', '🍭'];
 
-export const SHOP_ITEMS = [
-    { id: 'wood-tile', name: 'Oak Floor', price: 10, icon: '🪵' },
-    { id: 'stone-tile', name: 'Stone Path', price: 25, icon: '🪨' },
-    { id: 'steve', name: 'Miner Bob', price: 50, icon: '👷' },
-    { id: 'zombie', name: 'Zombo', price: 100, icon: '🧟' },
-    { id: 'creeper', name: 'Boomer', price: 200, icon: '🟩' },
-    { id: 'diamond-block', name: 'Shiny Block', price: 500, icon: '💎' },
+// Characters become the in-game avatar; tiles restyle the ten-frame and number-line blocks
+export const SHOP_ITEMS: ShopItem[] = [
+    { id: 'wood-tile', name: 'Oak Floor', price: 10, icon: '🪵', kind: 'tile', tileClass: 'bg-amber-700' },
+    { id: 'stone-tile', name: 'Stone Path', price: 25, icon: '🪨', kind: 'tile', tileClass: 'bg-stone-500' },
+    { id: 'steve', name: 'Miner Bob', price: 50, icon: '👷', kind: 'character' },
+    { id: 'zombie', name: 'Zombo', price: 100, icon: '🧟', kind: 'character' },
+    { id: 'creeper', name: 'Boomer', price: 200, icon: '🟩', kind: 'character' },
+    { id: 'diamond-block', name: 'Shiny Block', price: 500, icon: '💎', kind: 'tile', tileClass: 'bg-cyan-400' },
 ];
 
+export const DEFAULT_AVATAR = '🕷️';
+
 export const MasteryColors = {
     Diamond: 'text-cyan-700',
     Iron: 'text-stone-600',
     Wood: 'text-amber-900'
 };
+
+export const MasteryIcons = {
+    Diamond: '💎',
+    Iron: '⛓️',
+    Wood: '🪵'
+};
+
+// Minimum score for each rating; anything lower is Wood
+export const MASTERY_THRESHOLDS = {
+    Diamond: 90,
+    Iron: 75
+};
+
+export const TEST_QUESTION_COUNT = 10;
@@ -0,0 +1,116 @@
+import React from 'react';
+import { Fact, GameType } from '../types';
+import { t, tSpoken } from '../services/i18n';
+import { speak } from '../services/speech';
+import { GameApi, GameModule } from './types';
+import { CraftFrame, frameCells, nearbyChoices } from './shared';
+
+interface BridgeTenQuestion {
+    // 8 + 5 splits the 5 into 2 (fill to 10) and 3; 13 − 5 splits it into 3 (back to 10) and 2
+    a: number;
+    b: number;
+    op: '+' | '-';
+    split: number;
+    rest: number;
+    ans: number;
+    step: 'split' | 'total';
+    // Buttons for each step
+    splitChoices: number[];
+    totalChoices: number[];
+}
+
+// The split step is scaffolding: a wrong guess just shakes, and only the final sum is logged
+const choose = (q: BridgeTenQuestion, val: number, api: GameApi<BridgeTenQuestion>) => {
+    if (q.step === 'total') {
+        api.answer(val);
+        return;
+    }
+    if (val !== q.split) {
+        api.shake();
+        return;
+    }
+    api.update({ ...q, step: 'total' });
+    speak(tSpoken(q.op === '-' ? 'bridgeTen.sayMinusTotal' : 'bridgeTen.sayPlusTotal', { a: q.a, b: q.b, rest: q.rest }));
+};
+
+export const bridgeTen: GameModule<BridgeTenQuestion> = {
+    type: GameType.BRIDGE_TEN,
+    hub: { icon: '🪜', color: 'bg-green-600' },
+    test: { icon: '🔟' },
+
+    // Single-digit steps that always cross 10 (8 + 5, 13 − 5), kept within the range,
+    // so there is nothing to ask until the range goes past 10
+    facts: ({ range, ops }) => {
+        const facts: Fact[] = [];
+        for (let a = 2; a <= 9; a++) {
+            for (let b = 2; b <= 9; b++) {
+                if (a + b <= 10 || a + b > range) continue;
+                if (ops !== 'minus') facts.push({ a, b, op: '+' });
+                if (ops !== 'plus') facts.push({ a: a + b, b, op: '-' });
+            }
+        }
+        return facts;
+    },
+
+    createQuestion: (fact, settings, random) => {
+        const isSub = fact.op === '-';
+        const split = isSub ? fact.a - 10 : 10 - fact.a;
+        const ans = isSub ? fact.a - fact.b : fact.a + fact.b;
+        return {
+            a: fact.a, b: fact.b, op: fact.op, split, rest: fact.b - split, ans, step: 'split',
+            splitChoices: nearbyChoices(split, 9, random),
+            totalChoices: nearbyChoices(ans, 20, random)
+        };
+    },
+    expected: q => q.ans,
+    instructions: q => ({ main: `${q.a} ${q.op === '-' ? '−' : '+'} ${q.b} = ?`, sub: t('bridgeTen.sub') }),
+    prompt: q => tSpoken(q.op === '-' ? 'bridgeTen.sayTake' : 'bridgeTen.sayFill', { a: q.a, b: q.b }),
+    submitTyped: choose,
+    printable: q => ({
+        text: `${q.a} ${q.op === '-' ? '−' : '+'} ${q.b} = ☐`,
+        aid: { kind: 'tenFrames', counts: q.op === '-' ? [10, q.a - 10] : [q.a, q.b] }
+    }),
+
+    View: ({ question, api, icon, tileClass, feedbackVisible, numberPad }) => {
+        const isSub = question.op === '-';
+        const done = question.step === 'total';
+        const sign = isSub ? '−' : '+';
+        // Adding fills the first frame and spills the rest into the second;
+        // taking away empties the second frame, then eats into the first
+        const frames = isSub
+            ? [frameCells([['filled', done ? 10 - question.rest : 10], ['removed', done ? question.rest : 0]]), frameCells([[done ? 'removed' : 'filled', question.split]])]
+            : [frameCells([['filled', question.a], ['added', done ? question.split : 0]]), frameCells([['added', done ? question.rest : question.b]])];
+        return (
+            <div className="flex flex-col items-center justify-center gap-8 w-full h-full">
+                <div className={`flex flex-col items-center transition-opacity duration-200 ${feedbackVisible ? 'opacity-0' : 'opacity-100'}`}>
+                    <span className="pixel-font text-3xl text-green-700 uppercase mb-6 drop-shadow-sm">{t('bridgeTen.heading')}</span>
+                    <div dir="ltr" className="flex items-center gap-4 text-6xl font-black pixel-font text-stone-900">
+                        <span>{question.a}</span>
+                        <span>{sign}</span>
+                        {done ? (
+                            <><span className="text-green-600">{question.split}</span><span>{sign}</span><span className="text-green-600">{question.rest}</span></>
+                        ) : <span>{question.b}</span>}
+                        <span className="text-blue-700">=</span>
+                        <span className="animate-pulse">?</span>
+                    </div>
+                    <p className="pixel-font text-[10px] uppercase text-stone-700 mt-4 bg-white/70 mc-block px-4 py-2">
+                        {done ? t('bridgeTen.totalAsk') : isSub ? t('bridgeTen.takeAsk') : t('bridgeTen.fillAsk', { b: question.b })}
+                    </p>
+                </div>
+
+                <div dir="ltr" className="flex gap-8 items-center">
+                    <CraftFrame cells={frames[0]} icon={icon} tileClass={tileClass} />
+                    <CraftFrame cells={frames[1]} icon={icon} tileClass={tileClass} />
+                </div>
+
+                {numberPad ?? (
+                    <div className="flex gap-6 game-controls">
+                        {(done ? question.totalChoices : question.splitChoices).map((c, i) => (
+                            <button key={i} onClick={() => choose(question, c, api)} className="w-24 h-24 bg-white mc-block text-4xl font-bold text-stone-900 shadow-xl active:scale-90 active:translate-y-1 transition-all">{c}</button>
+                        ))}
+                    </div>
+                )}
+            </div>
+        );
+    }
+};
@@ -0,0 +1,100 @@
+import React from 'react';
+import { Fact, GameType } from '../types';
+import { t, tSpoken, spellNumber } from '../services/i18n';
+import { speak } from '../services/speech';
+import { GameApi, GameModule } from './types';
+
+interface CountUpQuestion {
+    start: number;
+    end: number;
+    ans: number;
+    // Where the count has got to
+    position: number;
+}
+
+const STEP_SIZES = [1, 2];
+
+const restart = (q: CountUpQuestion, api: GameApi<CountUpQuestion>) => api.update({ ...q, position: q.start });
+
+// Counting up says each number; landing on the end answers with the distance counted, overshooting misses
+const step = (q: CountUpQuestion, size: number, api: GameApi<CountUpQuestion>, playerName: string) => {
+    const position = q.position + size;
+    if (position === q.end) {
+        api.update({ ...q, position });
+        speak(tSpoken('rescue.reached', { n: position, name: playerName }));
+        api.answer(position - q.start);
+    } else if (position > q.end) {
+        api.answer(position - q.start);
+    } else {
+        api.update({ ...q, position });
+        speak(spellNumber(position));
+    }
+};
+
+export const countUp: GameModule<CountUpQuestion> = {
+    type: GameType.COUNT_UP,
+    hub: { icon: '🆘', color: 'bg-red-600' },
+    test: { icon: '🏃' },
+
+    // Small gaps to count across: ends from 3 to 10 in the first ten, otherwise anywhere from 12 up
+    facts: ({ range }) => {
+        const facts: Fact[] = [];
+        const [lowest, highest] = range === 10 ? [3, 10] : [12, range - 1];
+        for (let end = lowest; end <= highest; end++) {
+            for (let base = Math.max(0, end - 6); base <= end - 2; base++) facts.push({ a: end, b: base, op: '-' });
+        }
+        return facts;
+    },
+
+    createQuestion: fact => ({ start: fact.b, end: fact.a, ans: fact.a - fact.b, position: fact.b }),
+    expected: q => q.ans,
+    instructions: q => ({ main: `${q.end} − ${q.start} = ?`, sub: t('rescue.sub', { base: q.start, end: q.end }) }),
+    prompt: q => tSpoken('rescue.say', { base: q.start, end: q.end }),
+    settle: (q, correct) => correct ? { ...q, position: q.end } : q,
+    // The line starts at the smaller number, ready to count up from it
+    printable: q => ({ text: `${q.end} − ${q.start} = ☐`, aid: { kind: 'numberLine', from: q.start, to: q.end, mark: q.start } }),
+
+    // 1 and 2 count on; Backspace goes back to the start
+    onKey: (q, key, api, playerName) => {
+        if (STEP_SIZES.includes(Number(key))) step(q, Number(key), api, playerName);
+        else if (key === 'Backspace') restart(q, api);
+    },
+
+    View: ({ question, api, playerName, avatar, feedbackVisible, numberPad }) => (
+        <div className="flex flex-col items-center gap-6 justify-center h-full w-full">
+            {/* Centered Large Equation Header */}
+            <div className={`flex flex-col items-center mb-8 transition-opacity duration-200 ${feedbackVisible ? 'opacity-0' : 'opacity-100'}`}>
+                <h2 className="pixel-font text-5xl text-blue-600 drop-shadow-[3px_3px_0px_rgba(0,0,0,0.2)] text-center mb-6 uppercase">
+                    {t('rescue.heading')}
+                </h2>
+                <div dir="ltr" className="text-[80px] font-black pixel-font text-stone-900 mb-6 flex gap-6 items-center">
+                    <span>{question.end}</span>
+                    <span className="text-red-600 relative -top-[0.1em]">−</span>
+                    <span>{question.start}</span>
+                    <span className="text-blue-700">=</span>
+                    <span className="animate-pulse">?</span>
+                </div>
+                <div className="bg-white/80 p-6 mc-block border-stone-800 text-center shadow-xl max-w-lg">
+                    <p className="pixel-font text-[10px] uppercase text-stone-900 font-black leading-relaxed">
+                        {t('rescue.prompt', { start: question.start, end: question.end })}
+                    </p>
+                </div>
+            </div>
+
+            <div className="flex items-center gap-10 text-7xl text-stone-900 font-bold bg-white/70 p-16 mc-block shadow-2xl border-stone-400">
+                <div className="flex flex-col items-center"><span className="text-5xl mb-2">{avatar}</span><span>{question.position}</span></div>
+                <span className="text-5xl animate-pulse">➡️</span>
+                <div className="flex flex-col items-center opacity-40"><span className="text-4xl mb-2">🏁</span><span>{question.end}</span></div>
+            </div>
+
+            {numberPad ?? (
+                <div className="flex gap-8 w-full px-4 max-w-xl mt-8 game-controls">
+                    {STEP_SIZES.map(v => (
+                        <button key={v} onClick={() => step(question, v, api, playerName)} className="flex-1 bg-green-600 text-white mc-block p-10 text-5xl font-black shadow-2xl active:scale-95 active:bg-green-700">+{v}</button>
+                    ))}
+                    <button onClick={() => restart(question, api)} className="w-28 bg-red-500 text-white mc-block p-4 active:rotate-180 transition-transform">🔄</button>
+                </div>
+            )}
+        </div>
+    )
+};
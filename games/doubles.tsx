@@ -0,0 +1,78 @@
+import React from 'react';
+import { Fact, GameType } from '../types';
+import { t, tSpoken } from '../services/i18n';
+import { GameModule } from './types';
+import { TenFrame, nearbyChoices } from './shared';
+
+// Doubles stop at 20 + 20 however big the range gets
+const LARGEST_DOUBLE = 20;
+
+interface DoublesQuestion {
+    // b is a, or one either side of it for near doubles
+    a: number;
+    b: number;
+    ans: number;
+    choices: number[];
+}
+
+export const doubles: GameModule<DoublesQuestion> = {
+    type: GameType.DOUBLES,
+    hub: { icon: '🪄', color: 'bg-purple-600' },
+    test: { icon: '🌟' },
+
+    // Near doubles (6 + 7) join in once subtraction is mixed in, as long as they stay within the range
+    facts: ({ range, ops }) => {
+        const facts: Fact[] = [];
+        const nears = ops === 'mixed' ? [-1, 0, 1] : [0];
+        for (let d = 1; d <= Math.min(range / 2, LARGEST_DOUBLE); d++) {
+            nears.filter(near => d + d + near <= range).forEach(near => facts.push({ a: d, b: d + near, op: '+' }));
+        }
+        return facts;
+    },
+
+    createQuestion: (fact, settings, random) => {
+        const ans = fact.a + fact.b;
+        return { a: fact.a, b: fact.b, ans, choices: nearbyChoices(ans, settings.range, random) };
+    },
+    expected: q => q.ans,
+    instructions: q => ({ main: t('doubles.instruction'), sub: t('doubles.sub', { n: q.a }) }),
+    prompt: q => tSpoken('doubles.say', { a: q.a, b: q.b }),
+    printable: q => ({ text: `${q.a} + ${q.b} = ☐`, aid: { kind: 'tenFrames', counts: [q.a, q.b] } }),
+
+    View: ({ question, api, settings, feedbackVisible, numberPad }) => (
+        <div className="flex flex-col items-center justify-center w-full h-full">
+            <div className="flex flex-col items-center justify-center w-full max-w-4xl py-12">
+                <div className={`flex flex-col items-center mb-10 transition-opacity duration-200 ${feedbackVisible ? 'opacity-0' : 'opacity-100'}`}>
+                    <span className="pixel-font text-4xl text-blue-700 uppercase tracking-tighter drop-shadow-sm">{t('doubles.instruction')}</span>
+                    <span className="pixel-font text-sm text-stone-600 mt-3 font-bold uppercase tracking-widest">{t('doubles.double', { n: question.a })}</span>
+                </div>
+
+                <div dir="ltr" className="text-[120px] font-black flex gap-10 pixel-font text-stone-900 drop-shadow-lg mb-12 leading-none">
+                    <span>{question.a}</span><span>+</span><span>{question.b}</span>
+                </div>
+
+                {settings.assistMode && (
+                    <div className="flex gap-10 items-center mb-12">
+                        <TenFrame count={question.a} color="bg-purple-500" />
+                        <span className="text-4xl font-black text-stone-500">+</span>
+                        <TenFrame count={question.b} color="bg-orange-500" />
+                    </div>
+                )}
+
+                {numberPad ?? (
+                    <div className="grid grid-cols-3 gap-10 w-full px-8 game-controls">
+                        {question.choices.map((v, i) => (
+                            <button
+                                key={i}
+                                onClick={() => api.answer(v)}
+                                className="bg-white mc-block py-14 text-7xl font-black text-stone-900 shadow-[0_20px_40px_rgba(0,0,0,0.15)] active:translate-y-3 active:shadow-inner transition-all hover:bg-stone-50"
+                            >
+                                {v}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+};
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { GameType, Settings } from '../types';
+import { INITIAL_SETTINGS, RANGES, BOND_TARGETS } from '../constants';
+import { GAME_LIST, getGame, playableGames } from '.';
+import { GameApi } from './types';
+import { candidateFacts } from '../services/adaptive';
+import { generateQuestion } from '../services/questions';
+import { createRandom } from '../services/random';
+
+const SEEDS = 200;
+const NOW = Date.UTC(2025, 0, 1);
+
+// Every range and skill, each paired with one of the bond targets
+const SETTINGS: Settings[] = RANGES.flatMap((range, r) =>
+    (['plus', 'minus', 'mixed'] as const).map((ops, o) => ({ ...INITIAL_SETTINGS, range, ops, bondTarget: BOND_TARGETS[(r + o) % BOND_TARGETS.length] })));
+
+const label = (settings: Settings) => `range ${settings.range}, ${settings.ops}, bonds to ${settings.bondTarget}`;
+
+// Bonds go up to their own target, which is set apart from the range
+const largestAnswer = (type: GameType, settings: Settings) =>
+    type === GameType.MAKE_TEN ? settings.bondTarget : settings.range;
+
+// Every question a game can ask under these settings, each built with a few different seeds
+const allQuestions = (type: GameType, settings: Settings) => {
+    const game = getGame(type);
+    return candidateFacts(type, settings).flatMap((fact, i) =>
+        [0, 1, 2].map(seed => game.createQuestion(fact, settings, createRandom(i * 3 + seed))));
+};
+
+// The answer buttons a question shows, with the value each set is meant to contain and the largest it may show
+const choiceSets = (type: GameType, q: any, settings: Settings): { choices: number[], answer: number, max: number }[] => {
+    switch (type) {
+        case GameType.MAKE_TEN: return [{ choices: q.choices, answer: q.need, max: q.target }];
+        case GameType.DOUBLES:
+        case GameType.MISSING_ADDEND: return [{ choices: q.choices, answer: q.ans, max: settings.range }];
+        case GameType.BRIDGE_TEN: return [{ choices: q.splitChoices, answer: q.split, max: 9 }, { choices: q.totalChoices, answer: q.ans, max: settings.range }];
+        default: return [];
+    }
+};
+
+describe.each(SETTINGS.map(settings => [label(settings), settings] as const))('games with %s', (_, settings) => {
+    it.each(playableGames(settings).map(game => [game.type]))('%s always has something to ask', type => {
+        expect(candidateFacts(type, settings).length).toBeGreaterThan(0);
+    });
+
+    // Every step in it crosses 10, so nothing fits in a range of 10
+    it('offers every game but bridging through ten when the range is 10', () => {
+        const hidden = GAME_LIST.filter(game => !playableGames(settings).includes(game)).map(game => game.type);
+        expect(hidden).toEqual(settings.range === 10 ? [GameType.BRIDGE_TEN] : []);
+    });
+
+    it.each(GAME_LIST.map(game => [game.type]))('%s answers fall within the range', type => {
+        const max = largestAnswer(type, settings);
+        allQuestions(type, settings).forEach(q => {
+            const answer = getGame(type).expected(q);
+            expect(Number.isInteger(answer)).toBe(true);
+            expect(answer).toBeGreaterThanOrEqual(0);
+            expect(answer).toBeLessThanOrEqual(max);
+        });
+    });
+
+    it.each(GAME_LIST.map(game => [game.type]))('%s shows three distinct choices within the range, including the answer', type => {
+        allQuestions(type, settings).forEach(q => {
+            choiceSets(type, q, settings).forEach(({ choices, answer, max }) => {
+                expect(choices).toHaveLength(3);
+                expect(new Set(choices).size).toBe(3);
+                choices.forEach(c => {
+                    expect(c).toBeGreaterThanOrEqual(0);
+                    expect(c).toBeLessThanOrEqual(max);
+                });
+                expect(choices).toContain(answer);
+            });
+        });
+    });
+
+    it('hop puzzles can be solved with the hop buttons without leaving the number line on screen', () => {
+        const game = getGame(GameType.NUMBER_HOP);
+        allQuestions(GameType.NUMBER_HOP, settings).forEach(start => {
+            let q = start;
+            const answers: number[] = [];
+            const api: GameApi<any> = { update: next => { q = next; }, answer: given => { answers.push(given); }, shake: () => {} };
+            expect(start.hopSizes).toEqual(settings.range > 20 ? [1, 2, 5, 10] : [1, 2, 5]);
+            // Biggest hop that still fits, as a child pressing keys would; 0 is the +10 key
+            while (answers.length === 0) {
+                const size = [...start.hopSizes].reverse().find(s => s <= q.hopsLeft);
+                expect(size).toBeDefined();
+                game.onKey(q, size === 10 ? '0' : String(size), api, '');
+                expect(q.position).toBeGreaterThanOrEqual(Math.max(0, start.from));
+                expect(q.position).toBeLessThanOrEqual(Math.min(settings.range, start.to));
+            }
+            expect(answers).toEqual([game.expected(start)]);
+        });
+    });
+
+    it.each(playableGames(settings).map(game => [game.type]))('%s gives the same question for the same seed', type => {
+        for (let seed = 0; seed < SEEDS; seed++) {
+            const first = generateQuestion(type, settings, [], null, createRandom(seed), NOW);
+            const again = generateQuestion(type, settings, [], null, createRandom(seed), NOW);
+            expect(again).toEqual(first);
+            expect(candidateFacts(type, settings)).toContainEqual(first.fact);
+        }
+    });
+});
@@ -0,0 +1,25 @@
+import { GameType, Settings } from '../types';
+import { GameModule } from './types';
+import { makeTen } from './makeTen';
+import { numberHop } from './numberHop';
+import { doubles } from './doubles';
+import { countUp } from './countUp';
+import { missingAddend } from './missingAddend';
+import { bridgeTen } from './bridgeTen';
+
+// Every game, keyed by type so a new GameType won't compile until it has a module. Hub and test tiles follow this order.
+export const GAMES: Record<GameType, GameModule> = {
+    [GameType.MAKE_TEN]: makeTen,
+    [GameType.NUMBER_HOP]: numberHop,
+    [GameType.DOUBLES]: doubles,
+    [GameType.COUNT_UP]: countUp,
+    [GameType.MISSING_ADDEND]: missingAddend,
+    [GameType.BRIDGE_TEN]: bridgeTen
+};
+
+export const GAME_LIST: GameModule[] = Object.values(GAMES);
+
+export const getGame = (type: GameType): GameModule => GAMES[type];
+
+// Games with something to ask under these settings; bridging through ten needs a range of at least 20
+export const playableGames = (settings: Settings): GameModule[] => GAME_LIST.filter(game => game.facts(settings).length > 0);
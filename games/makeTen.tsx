@@ -0,0 +1,99 @@
+import React from 'react';
+import { Fact, GameType } from '../types';
+import { t, tSpoken } from '../services/i18n';
+import { GameModule } from './types';
+import { CraftFrame, frameCells, nearbyChoices } from './shared';
+
+interface MakeTenQuestion {
+    // have + need = target, the bond target from the settings
+    target: number;
+    have: number;
+    need: number;
+    choices: number[];
+    // Blocks in the frames: what the child has, then the whole target once solved
+    filled: number;
+    solved: boolean;
+}
+
+// Bonds to 100 are too many blocks for craft frames, so they fill a hundred square instead
+const HundredSquare: React.FC<{ filled: number, tileClass: string | null }> = ({ filled, tileClass }) => (
+    <div dir="ltr" className="grid grid-cols-10 gap-1 mc-block bg-stone-800 p-3 shadow-2xl">
+        {[...Array(100)].map((_, i) => (
+            <div key={i} className={`w-6 h-6 ${i < filled ? (tileClass || 'bg-orange-500') : 'bg-stone-700'}`} />
+        ))}
+    </div>
+);
+
+// One frame per ten, or a single frame of five for bonds to 5
+const BondFrames: React.FC<{ target: number, filled: number, icon: string, tileClass: string | null }> = ({ target, filled, icon, tileClass }) => {
+    if (target > 20) return <HundredSquare filled={filled} tileClass={tileClass} />;
+    const frames = Math.ceil(target / 10);
+    return (
+        <div dir="ltr" className="flex gap-6">
+            {[...Array(frames)].map((_, f) => (
+                <CraftFrame
+                    key={f}
+                    cells={frameCells([['filled', Math.min(10, Math.max(0, filled - f * 10))]], Math.min(10, target - f * 10))}
+                    icon={icon}
+                    tileClass={tileClass}
+                    className={frames === 1 ? 'scale-110' : ''}
+                />
+            ))}
+        </div>
+    );
+};
+
+export const makeTen: GameModule<MakeTenQuestion> = {
+    type: GameType.MAKE_TEN,
+    hub: { icon: '⚒️', color: 'bg-orange-700' },
+    test: { icon: '🧱' },
+
+    facts: ({ bondTarget }) => {
+        const facts: Fact[] = [];
+        for (let have = 1; have <= bondTarget - 2; have++) facts.push({ a: have, b: bondTarget - have, op: '+' });
+        return facts;
+    },
+
+    createQuestion: (fact, settings, random) => {
+        const target = fact.a + fact.b;
+        return { target, have: fact.a, need: fact.b, choices: nearbyChoices(fact.b, target, random), filled: fact.a, solved: false };
+    },
+    expected: q => q.need,
+    instructions: q => ({ main: t('makeTen.instruction', { target: q.target }), sub: t('makeTen.sub', { have: q.have }) }),
+    prompt: q => tSpoken('makeTen.say', { have: q.have, target: q.target }),
+    settle: (q, correct) => correct ? { ...q, filled: q.target, solved: true } : q,
+    printable: q => ({ text: `${q.have} + ☐ = ${q.target}`, aid: q.target <= 20 ? { kind: 'tenFrames', counts: [q.have] } : null }),
+
+    View: ({ question, api, playerName, icon, tileClass, feedbackVisible, numberPad }) => (
+        <div className="flex flex-col items-center gap-4 w-full h-full justify-center">
+            <div className="mb-6">
+                <h2 className="pixel-font text-5xl text-blue-600 drop-shadow-[4px_4px_0px_rgba(0,0,0,0.2)] text-center animate-pulse uppercase">{t('makeTen.heading', { target: question.target })}</h2>
+            </div>
+
+            <div className="h-32 flex items-center justify-center relative w-full mb-4">
+                {question.solved && (
+                    <div className="absolute animate-bounce flex flex-col items-center">
+                        <span className="text-8xl pixel-font text-yellow-500 drop-shadow-xl z-10">{question.target}!</span>
+                        <div className="text-xl pixel-font text-stone-800 bg-white/80 px-4 py-1 rounded-full mc-block mt-2">{t('common.perfect', { name: playerName })}</div>
+                    </div>
+                )}
+                {!question.solved && (
+                    <div className={`text-stone-800 pixel-font text-[10px] flex flex-col items-center bg-white/70 p-6 mc-block border-stone-900 shadow-xl ${feedbackVisible ? 'opacity-0' : 'opacity-100'}`}>
+                        <span className="mb-2 uppercase">{t('makeTen.have', { have: question.have })}</span>
+                        <span className="text-blue-700 font-black uppercase">{t('makeTen.ask', { target: question.target })}</span>
+                    </div>
+                )}
+            </div>
+
+            <BondFrames target={question.target} filled={question.filled} icon={icon} tileClass={tileClass} />
+
+            {numberPad ?? (
+                <div className="flex gap-6 mt-12 game-controls">
+                    {question.choices.map((c, i) => (
+                        <button key={i} onClick={() => api.answer(c)} className="w-24 h-24 bg-white mc-block text-4xl font-bold text-stone-900 shadow-xl active:scale-90 active:translate-y-1 transition-all">{c}</button>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+};
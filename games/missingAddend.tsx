@@ -0,0 +1,112 @@
+import React from 'react';
+import { Fact, GameType } from '../types';
+import { t, tSpoken } from '../services/i18n';
+import { GameModule } from './types';
+import { nearbyChoices } from './shared';
+
+interface MissingAddendQuestion {
+    // a + b = result or a − b = result, with either a or b hidden
+    a: number;
+    b: number;
+    op: '+' | '-';
+    result: number;
+    blankFirst: boolean;
+    ans: number;
+    choices: number[];
+    // Set once the question is done with, to show the whole fact family
+    revealed: boolean;
+}
+
+// The four facts linking two parts and their whole, e.g. 3 + 5, 5 + 3, 8 − 3, 8 − 5
+const FactFamily: React.FC<{ a: number, b: number, op: '+' | '-' }> = ({ a, b, op }) => {
+    const [part1, part2, whole] = op === '+' ? [a, b, a + b] : [b, a - b, a];
+    const facts = Array.from(new Set([
+        `${part1} + ${part2} = ${whole}`,
+        `${part2} + ${part1} = ${whole}`,
+        `${whole} − ${part1} = ${part2}`,
+        `${whole} − ${part2} = ${part1}`
+    ]));
+    return (
+        <div className="bg-white/80 mc-block p-6 shadow-xl flex flex-col items-center gap-3">
+            <span className="pixel-font text-[10px] uppercase text-teal-800">{t('missing.family')}</span>
+            <div dir="ltr" className="grid grid-cols-2 gap-x-10 gap-y-2 text-3xl font-black text-stone-900">
+                {facts.map(f => <span key={f}>{f}</span>)}
+            </div>
+        </div>
+    );
+};
+
+const sayKey = (q: MissingAddendQuestion) => q.op === '-'
+    ? (q.blankFirst ? 'missing.sayMinusFirst' : 'missing.sayMinusSecond')
+    : (q.blankFirst ? 'missing.sayPlusFirst' : 'missing.sayPlusSecond');
+
+export const missingAddend: GameModule<MissingAddendQuestion> = {
+    type: GameType.MISSING_ADDEND,
+    hub: { icon: '🏗️', color: 'bg-teal-600' },
+    test: { icon: '🧩' },
+
+    // Stored as the full fact; the question decides which number to hide
+    facts: ({ range, ops }) => {
+        const facts: Fact[] = [];
+        if (ops !== 'minus') {
+            for (let a = 1; a < range; a++) {
+                for (let b = 1; a + b <= range; b++) facts.push({ a, b, op: '+' });
+            }
+        }
+        if (ops !== 'plus') {
+            for (let whole = 2; whole <= range; whole++) {
+                for (let b = 1; b < whole; b++) facts.push({ a: whole, b, op: '-' });
+            }
+        }
+        return facts;
+    },
+
+    createQuestion: (fact, settings, random) => {
+        const result = fact.op === '-' ? fact.a - fact.b : fact.a + fact.b;
+        const blankFirst = random() < 0.5;
+        const ans = blankFirst ? fact.a : fact.b;
+        return { a: fact.a, b: fact.b, op: fact.op, result, blankFirst, ans, choices: nearbyChoices(ans, settings.range, random), revealed: false };
+    },
+    expected: q => q.ans,
+    instructions: q => {
+        const sign = q.op === '-' ? '−' : '+';
+        return { main: `${q.blankFirst ? '?' : q.a} ${sign} ${q.blankFirst ? q.b : '?'} = ${q.result}`, sub: t('missing.sub') };
+    },
+    prompt: q => tSpoken(sayKey(q), { a: q.a, b: q.b, result: q.result }),
+    settle: q => ({ ...q, revealed: true }),
+    // The frames hold the whole, to split into the two parts
+    printable: q => {
+        const sign = q.op === '-' ? '−' : '+';
+        return {
+            text: `${q.blankFirst ? '☐' : q.a} ${sign} ${q.blankFirst ? q.b : '☐'} = ${q.result}`,
+            aid: { kind: 'tenFrames', counts: [q.op === '-' ? q.a : q.result] }
+        };
+    },
+
+    View: ({ question, api, feedbackVisible, numberPad }) => {
+        const blank = (n: number) => (
+            <span className={`mc-block px-6 ${question.revealed ? 'bg-green-300' : 'bg-yellow-300 animate-pulse'}`}>{question.revealed ? n : '?'}</span>
+        );
+        return (
+            <div className="flex flex-col items-center justify-center w-full h-full">
+                <span className={`pixel-font text-3xl text-teal-700 uppercase mb-10 drop-shadow-sm transition-opacity duration-200 ${feedbackVisible ? 'opacity-0' : 'opacity-100'}`}>{t('missing.heading')}</span>
+
+                <div dir="ltr" className="flex items-center gap-6 text-[90px] font-black pixel-font text-stone-900 leading-none mb-10">
+                    {question.blankFirst ? blank(question.a) : <span>{question.a}</span>}
+                    <span className="text-teal-700">{question.op === '-' ? '−' : '+'}</span>
+                    {question.blankFirst ? <span>{question.b}</span> : blank(question.b)}
+                    <span className="text-blue-700">=</span>
+                    <span>{question.result}</span>
+                </div>
+
+                {question.revealed ? <FactFamily a={question.a} b={question.b} op={question.op} /> : (numberPad ?? (
+                    <div className="grid grid-cols-3 gap-10 w-full max-w-3xl px-8 game-controls">
+                        {question.choices.map((v, i) => (
+                            <button key={i} onClick={() => api.answer(v)} className="bg-white mc-block py-12 text-6xl font-black text-stone-900 shadow-xl active:translate-y-2 transition-all">{v}</button>
+                        ))}
+                    </div>
+                ))}
+            </div>
+        );
+    }
+};
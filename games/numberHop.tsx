@@ -0,0 +1,158 @@
+import React from 'react';
+import { Fact, GameType } from '../types';
+import { t, tSpoken } from '../services/i18n';
+import { GameApi, GameModule } from './types';
+
+interface NumberHopQuestion {
+    start: number;
+    jump: number;
+    target: number;
+    isSub: boolean;
+    // Where the avatar stands, and how much of the jump is still to hop
+    position: number;
+    hopsLeft: number;
+    // The hop buttons, and the stretch of number line on screen
+    hopSizes: number[];
+    from: number;
+    to: number;
+}
+
+// Jumps stay short enough to hop in a few goes, and to fit on screen with the start and the flag
+const MAX_JUMP = 20;
+const LINE_CELLS = 20;
+
+// All of the line up to 20; past that, 20 steps around the hop
+const lineWindow = (start: number, target: number, range: number) => {
+    if (range <= LINE_CELLS) return { from: 0, to: range };
+    const low = Math.min(start, target);
+    const gap = Math.abs(target - start);
+    const from = Math.max(0, Math.min(low - Math.floor((LINE_CELLS - gap) / 2), range - LINE_CELLS));
+    return { from, to: from + LINE_CELLS };
+};
+
+// 0 on the keyboard hops 10
+const keyForHop = (size: number) => size === 10 ? '0' : String(size);
+
+const restart = (q: NumberHopQuestion, api: GameApi<NumberHopQuestion>) =>
+    api.update({ ...q, position: q.start, hopsLeft: q.jump });
+
+// The answer is wherever the avatar lands once the whole jump is used up
+const hop = (q: NumberHopQuestion, size: number, api: GameApi<NumberHopQuestion>) => {
+    if (q.hopsLeft < size) return;
+    const position = q.position + (q.isSub ? -size : size);
+    const hopsLeft = q.hopsLeft - size;
+    api.update({ ...q, position, hopsLeft });
+    if (hopsLeft === 0) api.answer(position, { ...q, position: q.start, hopsLeft: q.jump });
+};
+
+const instructionKey = (q: NumberHopQuestion) => q.isSub ? 'hop.back' : 'hop.forward';
+
+export const numberHop: GameModule<NumberHopQuestion> = {
+    type: GameType.NUMBER_HOP,
+    hub: { icon: '🌉', color: 'bg-blue-600' },
+    test: { icon: '🏔️' },
+
+    facts: ({ range, ops }) => {
+        const facts: Fact[] = [];
+        if (ops !== 'minus') {
+            for (let start = 0; start < range - 3; start++) {
+                for (let jump = 1; jump <= Math.min(range - start - 1, MAX_JUMP); jump++) facts.push({ a: start, b: jump, op: '+' });
+            }
+        }
+        if (ops !== 'plus') {
+            for (let start = 3; start < range; start++) {
+                for (let jump = 1; jump <= Math.min(start, MAX_JUMP); jump++) facts.push({ a: start, b: jump, op: '-' });
+            }
+        }
+        return facts;
+    },
+
+    createQuestion: (fact, settings) => {
+        const isSub = fact.op === '-';
+        const target = isSub ? fact.a - fact.b : fact.a + fact.b;
+        return {
+            start: fact.a, jump: fact.b, target, isSub, position: fact.a, hopsLeft: fact.b,
+            hopSizes: settings.range > 20 ? [1, 2, 5, 10] : [1, 2, 5],
+            ...lineWindow(fact.a, target, settings.range)
+        };
+    },
+    expected: q => q.target,
+    instructions: q => ({ main: `${q.start} ${q.isSub ? '−' : '+'} ${q.jump} = ?`, sub: t(instructionKey(q), { start: q.start, jump: q.jump }) }),
+    prompt: q => tSpoken(instructionKey(q), { start: q.start, jump: q.jump }),
+    settle: (q, correct) => correct ? { ...q, position: q.target, hopsLeft: 0 } : q,
+    printable: q => ({ text: `${q.start} ${q.isSub ? '−' : '+'} ${q.jump} = ☐`, aid: { kind: 'numberLine', from: q.from, to: q.to, mark: q.start } }),
+
+    // 1, 2, 5 (and 0 for 10) hop; Backspace goes back to the start
+    onKey: (q, key, api) => {
+        const size = q.hopSizes.find(s => keyForHop(s) === key);
+        if (size) hop(q, size, api);
+        else if (key === 'Backspace') restart(q, api);
+    },
+
+    View: ({ question, api, settings, playerName, avatar, tileClass, feedbackVisible, numberPad }) => {
+        // Assist mode: the cells the avatar still has to cross on the way to the flag
+        const isOnHopPath = (cell: number) =>
+            cell >= Math.min(question.position, question.target) && cell <= Math.max(question.position, question.target);
+        return (
+            <div className="flex flex-col items-center w-full gap-4 justify-center h-full">
+                <div className={`flex flex-col items-center mb-8 transition-opacity duration-200 ${feedbackVisible ? 'opacity-0' : 'opacity-100'}`}>
+                    <h2 dir="ltr" className="pixel-font text-4xl text-blue-600 drop-shadow-[2px_2px_0px_rgba(0,0,0,0.2)] text-center mb-4">
+                        {question.start} {question.isSub ? '−' : '+'} {question.jump} = ?
+                    </h2>
+                    <div className="bg-white/70 px-6 py-4 mc-block border-stone-800 text-center shadow-lg">
+                        <p className="pixel-font text-[10px] uppercase text-stone-900 font-black mb-2">
+                            {t(question.isSub ? 'hop.backBlocks' : 'hop.forwardBlocks', { start: question.start, jump: question.jump })}
+                        </p>
+                        <p className="pixel-font text-[12px] uppercase text-red-600 font-black animate-pulse">
+                            {t('hop.left', { n: question.hopsLeft })}
+                        </p>
+                    </div>
+                </div>
+
+                <div className="w-full h-52 relative mc-block bg-stone-200 flex items-center px-4 overflow-hidden shadow-inner mb-6">
+                    {/* Number lines and sums read left to right in every language */}
+                    <div dir="ltr" className="flex items-center gap-0 w-full relative h-full">
+                        {question.from > 0 && <span className="absolute left-0 -bottom-1 text-stone-500 font-black">…</span>}
+                        {[...Array(question.to - question.from + 1)].map((_, cell) => {
+                            const i = question.from + cell;
+                            return (
+                                <div key={i} className={`flex-1 h-14 border-r border-stone-400 flex items-center justify-center relative ${settings.assistMode && isOnHopPath(i) ? 'bg-yellow-300/70' : (tileClass || '')}`}>
+                                    <span className={`text-[10px] absolute -bottom-10 font-bold ${i % 10 === 0 ? 'text-blue-800 scale-150 underline' : 'text-stone-700'} w-full text-center`}>{i}</span>
+                                    {question.position === i && (
+                                        <div className="absolute -top-20 left-1/2 -translate-x-1/2 z-20 flex flex-col items-center transition-all duration-300 pointer-events-none">
+                                            <div className="w-20 h-20 rounded-full bg-blue-500/20 absolute -z-10 animate-ping"></div>
+                                            <span className="text-7xl drop-shadow-[0_5px_5px_rgba(0,0,0,0.5)]">{avatar}</span>
+                                            <span className="text-[8px] pixel-font text-blue-900 mt-1 uppercase font-black whitespace-nowrap">{playerName}</span>
+                                        </div>
+                                    )}
+                                    {question.target === i && (
+                                        <div className="absolute -top-14 left-1/2 -translate-x-1/2 opacity-90 z-10 animate-pulse flex flex-col items-center pointer-events-none">
+                                            <span className="text-5xl drop-shadow-md">🚩</span>
+                                            <div className="w-12 h-1 bg-red-600/30 blur-sm rounded-full mt-1"></div>
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                        {question.to < settings.range && <span className="absolute right-0 -bottom-1 text-stone-500 font-black">…</span>}
+                    </div>
+                </div>
+                {numberPad ?? (
+                    <div className="flex gap-6 w-full px-6 game-controls max-w-2xl mt-4">
+                        {question.hopSizes.map(v => (
+                            <button
+                                key={v}
+                                disabled={question.hopsLeft < v}
+                                onClick={() => hop(question, v, api)}
+                                className={`flex-1 mc-block p-8 text-4xl font-black transition-all ${question.hopsLeft >= v ? 'bg-blue-600 text-white shadow-2xl active:translate-y-2' : 'bg-stone-300 text-stone-500 opacity-40 shadow-none'}`}
+                            >
+                                {question.isSub ? '−' : '+'}{v}
+                            </button>
+                        ))}
+                        <button onClick={() => restart(question, api)} className="w-24 bg-red-500 text-white mc-block p-6 text-2xl active:scale-90">🔄</button>
+                    </div>
+                )}
+            </div>
+        );
+    }
+};
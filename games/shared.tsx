@@ -0,0 +1,61 @@
+import React from 'react';
+import { Random, randomInt, shuffle } from '../services/random';
+
+// Ten-frame helper: one 2x5 frame per full ten, filled left to right
+export const TenFrame: React.FC<{ count: number, color: string }> = ({ count, color }) => (
+    <div className="flex gap-2">
+        {[...Array(Math.max(1, Math.ceil(count / 10)))].map((_, frame) => (
+            <div key={frame} className="grid grid-cols-5 gap-1 mc-block bg-stone-800 p-2">
+                {[...Array(10)].map((_, i) => (
+                    <div key={i} className={`w-6 h-6 ${frame * 10 + i < count ? color : 'bg-stone-600'}`} />
+                ))}
+            </div>
+        ))}
+    </div>
+);
+
+// On-screen number pad for typed answers; a physical keyboard works alongside it
+export const NumberPad: React.FC<{ value: string, onDigit: (d: string) => void, onDelete: () => void, onSubmit: () => void }> = ({ value, onDigit, onDelete, onSubmit }) => (
+    <div className="flex flex-col items-center gap-3 game-controls mt-4">
+        <div className="w-48 h-20 bg-white mc-block flex items-center justify-center text-5xl font-black text-stone-900">{value || '?'}</div>
+        <div className="grid grid-cols-3 gap-2">
+            {['1', '2', '3', '4', '5', '6', '7', '8', '9'].map(d => (
+                <button key={d} onClick={() => onDigit(d)} className="w-20 h-16 bg-stone-100 mc-block text-3xl font-black text-stone-900 active:scale-90">{d}</button>
+            ))}
+            <button onClick={onDelete} className="w-20 h-16 bg-red-500 mc-block text-2xl text-white active:scale-90">⌫</button>
+            <button onClick={() => onDigit('0')} className="w-20 h-16 bg-stone-100 mc-block text-3xl font-black text-stone-900 active:scale-90">0</button>
+            <button onClick={onSubmit} disabled={!value} className="w-20 h-16 bg-green-600 mc-block text-2xl text-white active:scale-90 disabled:opacity-40">✔</button>
+        </div>
+    </div>
+);
+
+// Three answer buttons: the answer, its neighbours, and a random pick up to max when a neighbour is missing
+export const nearbyChoices = (ans: number, max: number, random: Random) => {
+    // Neighbours stay within 0..max, so an answer at the top of the range isn't given away
+    const list = Array.from(new Set([ans, Math.min(max, ans + 1), Math.max(0, ans - 1)]));
+    while(list.length < 3) {
+        const extra = randomInt(max, random);
+        if (!list.includes(extra)) list.push(extra);
+    }
+    return shuffle(list, random);
+};
+
+export type FrameCell = 'empty' | 'filled' | 'added' | 'removed';
+
+// Lays out runs of cells in order, padding the rest of the frame (a ten, or a five) with empty ones
+export const frameCells = (runs: [FrameCell, number][], size: number = 10): FrameCell[] => {
+    const cells = runs.flatMap(([cell, count]) => Array<FrameCell>(count).fill(cell));
+    return [...cells, ...Array<FrameCell>(Math.max(0, size - cells.length)).fill('empty')].slice(0, size);
+};
+
+// The crafting grid from Craft 10: one ten-frame of blocks showing the current object
+export const CraftFrame: React.FC<{ cells: FrameCell[], icon: string, tileClass: string | null, className?: string }> = ({ cells, icon, tileClass, className = '' }) => (
+    <div className={`grid grid-cols-5 gap-3 mc-block bg-stone-800 p-6 shadow-2xl ${className}`}>
+        {cells.map((cell, i) => (
+            <div key={i} className={`w-14 h-14 mc-block flex items-center justify-center ${cell === 'filled' ? (tileClass || 'bg-orange-500') : cell === 'added' ? 'bg-green-500' : 'bg-stone-700'}`}>
+                {(cell === 'filled' || cell === 'added') && <span className="text-4xl animate-pulse">{icon}</span>}
+                {cell === 'removed' && <span className="text-3xl opacity-40">{icon}</span>}
+            </div>
+        ))}
+    </div>
+);
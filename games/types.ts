@@ -0,0 +1,61 @@
+import React from 'react';
+import { Fact, GameType, Settings } from '../types';
+import { Random } from '../services/random';
+
+// What a game's view and actions can do to the round in progress
+export interface GameApi<Q> {
+    // Replace the question state, e.g. after a hop; ignored once the question is answered
+    update: (question: Q) => void;
+    // Log an answer to the current fact. After a wrong try in practice the question goes back to `retry`, if given.
+    answer: (given: number, retry?: Q) => void;
+    // A wrong step that isn't an answer, like the first half of a two-step question
+    shake: () => void;
+}
+
+export interface GameViewProps<Q> {
+    question: Q;
+    api: GameApi<Q>;
+    settings: Settings;
+    playerName: string;
+    avatar: string;
+    tileClass: string | null;
+    // The craft object drawn in frames for this question
+    icon: string;
+    feedbackVisible: boolean;
+    // Set when the game takes typed answers; the view shows it in place of its buttons
+    numberPad: React.ReactNode | null;
+}
+
+// A drawing printed next to a worksheet question: ten-frames holding these counts, or a number line with one number ringed
+export type PrintAid = { kind: 'tenFrames', counts: number[] } | { kind: 'numberLine', from: number, to: number, mark: number };
+
+// A question as it appears on paper. The blank to fill in is written as ☐.
+export interface PrintedProblem {
+    text: string;
+    aid: PrintAid | null;
+}
+
+// Everything one game needs. Names come from the `game.<TYPE>` and `test.<TYPE>` catalog keys.
+export interface GameModule<Q = any> {
+    type: GameType;
+    hub: { icon: string, color: string };
+    test: { icon: string };
+    // Every fact the game can ask under these settings; the adaptive picker chooses among them
+    facts: (settings: Settings) => Fact[];
+    // Must take all its randomness from `random`, so a seed always gives the same question
+    createQuestion: (fact: Fact, settings: Settings, random: Random) => Q;
+    // The number an answer is checked against
+    expected: (question: Q) => number;
+    // HUD text, and the line read aloud when the question appears
+    instructions: (question: Q) => { main: string, sub: string };
+    prompt: (question: Q) => string;
+    // The question as shown once it is over: after a right answer, or any answer in a test
+    settle?: (question: Q, correct: boolean) => Q;
+    // Typed answers go straight to `answer` unless the game needs more than one step
+    submitTyped?: (question: Q, value: number, api: GameApi<Q>) => void;
+    // Keyboard shortcuts when answers aren't typed
+    onKey?: (question: Q, key: string, api: GameApi<Q>, playerName: string) => void;
+    // The same question for a printed worksheet
+    printable: (question: Q, settings: Settings) => PrintedProblem;
+    View: React.FC<GameViewProps<Q>>;
+}
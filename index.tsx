@@ -14,3 +14,10 @@ root.render(
         <App />
     </React.StrictMode>
 );
+
+// Only production builds get the service worker; in dev it would serve stale modules
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+    window.addEventListener('load', () => {
+        navigator.serviceWorker.register('/sw.js').catch(error => console.warn("Service worker registration failed", error));
+    });
+}
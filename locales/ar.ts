@@ -0,0 +1,328 @@
+import { Messages } from './en';
+
+export const ar: Messages = {
+    'feedback.success': ["أحسنت يا {name}!", "برافو يا {name}!", "رائع يا {name}!", "استمر يا {name}!", "ممتاز يا {name}!", "أنت نجم يا {name}!"],
+    'feedback.wrong': ["أوه! حاول مرة أخرى يا {name}!", "اقتربت يا {name}!", "تستطيع فعلها يا {name}!", "واصل المحاولة يا {name}!"],
+
+    'common.back': 'رجوع',
+    'common.cancel': 'إلغاء',
+    'common.start': 'ابدأ',
+    'common.ok': 'حسنًا',
+    'common.perfect': 'ممتاز يا {name}!',
+
+    'game.MAKE_TEN': 'اصنع 10',
+    'game.NUMBER_HOP': 'الجسر',
+    'game.DOUBLES': 'سحر الضعف',
+    'game.COUNT_UP': 'الإنقاذ',
+    'game.MISSING_ADDEND': 'باني الجسور',
+    'game.BRIDGE_TEN': 'قفزة العشرة',
+
+    'test.MAKE_TEN': 'مكملات {target}',
+    'test.NUMBER_HOP': 'اختبار الجسر',
+    'test.DOUBLES': 'قوة الضعف',
+    'test.COUNT_UP': 'العدّ التصاعدي',
+    'test.MISSING_ADDEND': 'الأعداد الناقصة',
+    'test.BRIDGE_TEN': 'عبور العشرة',
+
+    'mode.TIMED': 'بالوقت',
+    'mode.FREE': 'حر',
+    'mode.STREAK': '🚂 سلسلة 20',
+
+    'rating.Diamond': 'ماسي',
+    'rating.Iron': 'حديدي',
+    'rating.Wood': 'خشبي',
+
+    'item.wood-tile': 'أرضية بلوط',
+    'item.stone-tile': 'ممر حجري',
+    'item.steve': 'بوب المنقّب',
+    'item.zombie': 'زومبو',
+    'item.creeper': 'بومر',
+    'item.diamond-block': 'مكعب لامع',
+
+    'profiles.title': 'من يلعب؟',
+    'profiles.new': 'لاعب جديد',
+    'profiles.namePlaceholder': 'الاسم',
+    'profiles.play': 'هيا نلعب!',
+    'profiles.delete': 'حذف {name} وكل تقدّمه؟',
+    'profiles.classroom': 'الفصل',
+
+    'hub.resting': 'يستريح...',
+    'hub.tryOthers': 'جرّب غيرها!',
+    'hub.training': 'التدريب',
+    'hub.chest': 'الصندوق',
+    'hub.village': 'القرية',
+    'hub.trophies': 'الجوائز',
+    'hub.plan': 'خطة اليوم',
+    'hub.wakeWins': 'يستيقظ بعد {n} انتصارات',
+    'hub.wakeMinutes': 'يستيقظ بعد {n} دقائق',
+    'hub.noHearts': '❤️ بعد {n} د',
+
+    'daily.goalAnswers': 'هدف اليوم: {value}/{target} إجابة صحيحة',
+    'daily.goalMinutes': 'هدف اليوم: {value}/{target} دقيقة',
+    'daily.goalDone': '✅ تحقّق هدف اليوم!',
+    'daily.streak': '🔥 السلسلة: {n}',
+    'daily.bonusNext': 'حقّقه لتربح +{n} 🟩',
+    'daily.bonusEarned': 'مكافأة السلسلة +{n} 🟩',
+    'daily.calendar': 'تقويم التدريب',
+
+    'tests.title': 'اختبارات الإتقان',
+    'tests.assigned': 'المهمة: الوصول إلى {rating} قبل {date}',
+
+    'makeTen.instruction': 'اصنع {target}!',
+    'makeTen.sub': 'لديك {have}. كم تحتاج بعد؟',
+    'makeTen.say': 'اصنع {target}! لديك {have}. أضف مكعبات لتصنع {target}.',
+    'makeTen.heading': 'اصنع {target}!',
+    'makeTen.have': 'لديك {have} مكعبات.',
+    'makeTen.ask': 'كم مكعبًا تحتاج بعد لتصنع {target}؟',
+
+    'doubles.instruction': 'ضاعفه!',
+    'doubles.sub': 'ضعف {n}!',
+    'doubles.say': 'ضاعفه! كم يساوي {a} زائد {b}؟',
+    'doubles.double': 'ضعف {n}',
+
+    'hop.forward': 'ابدأ من {start}. اقفز {jump}.',
+    'hop.back': 'ابدأ من {start}. ارجع {jump}.',
+    'hop.forwardBlocks': 'ابدأ من {start}. اقفز {jump} مكعبات.',
+    'hop.backBlocks': 'ابدأ من {start}. ارجع {jump} مكعبات.',
+    'hop.left': 'القفزات المتبقية: {n}',
+
+    'rescue.sub': 'عُدّ من {base} إلى {end}!',
+    'rescue.say': 'مهمة إنقاذ! لنحلّ {end} ناقص {base}، لنعدّ من {base} حتى نصل إلى {end}.',
+    'rescue.heading': 'مهمة إنقاذ!',
+    'rescue.prompt': 'لنعدّ من {start} حتى {end}!',
+    'rescue.reached': '{n}! ممتاز يا {name}!',
+
+    'missing.sub': 'أي عدد يملأ الفراغ؟',
+    'missing.heading': 'ابنِ الجسر!',
+    'missing.sayPlusSecond': '{a} زائد كم يساوي {result}؟',
+    'missing.sayPlusFirst': 'كم زائد {b} يساوي {result}؟',
+    'missing.sayMinusSecond': '{a} ناقص كم يساوي {result}؟',
+    'missing.sayMinusFirst': 'كم ناقص {b} يساوي {result}؟',
+    'missing.family': 'عائلة العمليات',
+
+    'bridgeTen.heading': 'اقفز فوق العشرة!',
+    'bridgeTen.sub': 'أكمل العشرة أولًا، ثم الباقي!',
+    'bridgeTen.fillAsk': 'كم من الـ{b} يكمل الإطار إلى 10؟',
+    'bridgeTen.takeAsk': 'كم نطرح لنعود إلى 10؟',
+    'bridgeTen.totalAsk': 'والآن أكمل!',
+    'bridgeTen.sayFill': '{a} زائد {b}. أولًا أكمل الإطار إلى عشرة. كم نحتاج؟',
+    'bridgeTen.sayTake': '{a} ناقص {b}. أولًا اطرح حتى تصل إلى عشرة. كم ذلك؟',
+    'bridgeTen.sayPlusTotal': 'عشرة، و{rest} أخرى. إذن كم يساوي {a} زائد {b}؟',
+    'bridgeTen.sayMinusTotal': 'عشرة، ناقص {rest} أخرى. إذن كم يساوي {a} ناقص {b}؟',
+
+    'play.timeUp': 'انتهى الوقت!',
+    'play.freePlay': 'لعب حر',
+    'play.streak': 'السلسلة: {n}/20',
+    'play.question': 'السؤال {n}/{total}',
+    'play.score': 'نقاط {name}: {n}',
+    'play.backToHub': 'العودة إلى القرية',
+
+    'results.trial': 'تقرير الاختبار',
+    'results.hero': 'بطل يا {name}!',
+    'results.mastery': 'إتقان {rating}',
+    'results.accuracy': 'الدقة: {score}%',
+    'results.detail': '{correct}/{questions} صحيحة · {seconds} ث لكل سؤال',
+    'results.playAgain': 'العب مجددًا',
+    'results.home': 'العودة إلى القرية',
+
+    'shop.title': 'صندوق القرية',
+    'shop.equipped': 'مُجهَّز',
+    'shop.useNow': 'استخدم الآن',
+    'shop.buyBlock': 'x{count} · +1 مقابل {price} 🟩',
+    'shop.close': 'أغلق الصندوق',
+
+    'village.title': 'قريتي',
+    'village.plots': '{n} قطعة أرض مفتوحة · ارتقِ مستوى لتحصل على المزيد!',
+    'village.empty': 'صندوقك فارغ. زُر المتجر! 📦',
+    'village.help': 'اختر شيئًا من صندوقك ثم المس قطعة أرض. المسها مرة أخرى لتستعيده.',
+
+    'parent.title': 'إعدادات الوالدين',
+    'parent.language': 'اللغة',
+    'parent.difficulty': 'مستوى الصعوبة',
+    'parent.skills': 'مهارات الحساب',
+    'parent.opsPlus': 'جمع فقط',
+    'parent.opsMinus': 'طرح فقط',
+    'parent.opsMixed': 'مختلط (+ / −)',
+    'parent.opsMinusNote': '{a} و{b} تتدرّبان دائمًا على الجمع.',
+    'parent.bonds': 'أزواج الأعداد · {game}',
+    'parent.bondsTo': 'إلى {n}',
+    'parent.timer': 'مدة المؤقت',
+    'parent.session': 'مدة الجلسة',
+    'parent.oneHanded': 'وضع اليد الواحدة',
+    'parent.handsBoth': 'اليدان',
+    'parent.handsLeft': '👈 اليسرى',
+    'parent.handsRight': 'اليمنى 👉',
+    'parent.hints': 'التلميحات',
+    'parent.hintsOn': '💡 إظهار التلميحات',
+    'parent.hintsOff': 'بدون تلميحات',
+    'parent.typed': 'كتابة الإجابة',
+    'parent.typedNote': 'الألعاب المختارة تعرض لوحة أرقام بدلًا من أزرار الإجابة.',
+    'parent.progress': '📊 تقرير التقدّم',
+    'parent.worksheet': '🖨️ طباعة ورقة تمارين',
+    'parent.erase': 'مسح التقدّم',
+    'parent.saveExit': 'حفظ وخروج',
+    'parent.resetConfirm': 'إعادة ضبط كل شيء لـ{name}؟',
+    'parent.undoConfirm': 'استعادة تقدّم {name} من قبل إعادة الضبط؟',
+
+    'custom.title': 'قائمة عمليات خاصة',
+    'custom.on': '📝 قائمتي',
+    'custom.off': 'كل العمليات',
+    'custom.placeholder': 'مثال: 1 + 9، 2 + 9، 12 − 9',
+    'custom.invalid': 'تعذّرت قراءة: {facts}',
+    'custom.addPlus': 'أضف عمليات +{n}',
+    'custom.addMinus': 'أضف عمليات −{n}',
+    'custom.clear': 'مسح',
+    'custom.usedBy': 'تُطرح في: {games}. تحتفظ الألعاب الأخرى بعملياتها المعتادة.',
+    'custom.usedByNone': 'لا توجد لعبة تستطيع طرح هذه العمليات في هذا المستوى، فتحتفظ كل لعبة بعملياتها المعتادة.',
+
+    'goal.title': 'هدف اليوم',
+    'goal.answers': '✅ إجابات صحيحة',
+    'goal.minutes': '⏱️ دقائق',
+    'goal.minutesValue': '{n} دقيقة',
+    'goal.penaltiesOn': '❤️ مع القلوب',
+    'goal.penaltiesOff': '🌈 بدون عقوبات',
+    'goal.heartsNote': 'في وضع السلسلة، كل خطأ يكلّف قلبًا. يعود قلب كل {n} دقيقة.',
+    'goal.penaltiesNote': 'الأخطاء لا تكلّف قلوبًا أبدًا، واليوم الفائت يوقف السلسلة مؤقتًا بدل أن ينهيها.',
+
+    'rotation.title': 'تناوب الألعاب',
+    'rotation.on': '🔄 استراحة الألعاب',
+    'rotation.off': 'كل الألعاب مفتوحة',
+    'rotation.wins': '🏆 عدّ الانتصارات',
+    'rotation.minutes': '⏱️ عدّ الدقائق',
+    'rotation.threshold': 'تستريح اللعبة بعد',
+    'rotation.cooldown': 'تستيقظ بعد اللعب بغيرها',
+    'rotation.winsValue': '{n} انتصارات',
+    'rotation.minutesValue': '{n} دقيقة',
+    'rotation.modes': 'يُحسب في',
+    'rotation.winsNote': 'الانتصار يساوي {n} إجابات صحيحة، فالسلسلة الطويلة تُحسب أكثر من الجولة القصيرة.',
+    'rotation.planOn': '📅 إظهار خطة اليوم',
+    'rotation.planOff': 'بدون خطة',
+    'rotation.planNote': 'تختار {n} ألعاب كل يوم، الأقل إتقانًا أولًا. تكتمل كل لعبة بعد {answers} إجابات صحيحة.',
+
+    'achievement.first-steps': 'الخطوات الأولى',
+    'achievement.first-steps.desc': 'أجب 10 إجابات صحيحة',
+    'achievement.bonds-100': 'سيد المكملات',
+    'achievement.bonds-100.desc': 'أجب 100 إجابة صحيحة في {game}',
+    'achievement.doubles-streak': 'ضعف الحماس',
+    'achievement.doubles-streak.desc': 'أجب 20 مرة متتالية صحيحة في {game}',
+    'achievement.explorer': 'المستكشف',
+    'achievement.explorer.desc': 'أجب إجابة صحيحة في كل لعبة',
+    'achievement.week-streak': 'مشتعل',
+    'achievement.week-streak.desc': 'حقّق هدف اليوم 7 أيام متتالية',
+    'achievement.diamond-sword': 'السيف الماسي',
+    'achievement.diamond-sword.desc': 'احصل على الماسي في كل اختبار',
+    'achievement.builder': 'باني القرية',
+    'achievement.builder.desc': 'ضع 10 مكعبات في قريتك',
+    'achievement.treasure': 'صائد الكنوز',
+    'achievement.treasure.desc': 'اجمع 500 زمردة',
+    'trophies.title': 'قاعة الجوائز',
+    'trophies.count': '{n}/{total} مفتوحة',
+    'trophies.earned': 'حُصل عليها في {date}',
+    'trophies.unlocked': 'إنجاز جديد!',
+    'trophies.swordForged': 'صُنع السيف الماسي!',
+    'trophies.swordHint': 'احصل على الماسي في كل اختبار لتصنع السيف الماسي ({n}/{total}).',
+
+    'sound.title': 'الصوت',
+    'sound.on': '🔊 الصوت مفعّل',
+    'sound.off': '🔇 إيقاف الكل',
+    'sound.voice': '🗣️ الكلام',
+    'sound.sfx': '🔔 المؤثرات',
+    'sound.music': '🎵 الموسيقى',
+    'sound.mute': 'كتم',
+    'sound.muted': 'مكتوم',
+
+    'voice.title': 'الصوت المنطوق',
+    'voice.auto': 'الأفضل',
+    'voice.gemini': 'صوت ذكي',
+    'voice.device': 'الجهاز',
+    'voice.off': 'صامت',
+    'voice.accent': 'اللهجة',
+    'voice.aiVoice': 'الصوت الذكي',
+    'voice.deviceVoice': 'صوت الجهاز',
+    'voice.default': 'الافتراضي',
+    'voice.speed': 'السرعة {n}x',
+    'voice.pitch': 'طبقة الصوت {n}',
+    'voice.test': '🔊 جرّب الصوت',
+    'voice.testLine': 'مرحبًا! هيا نتعلّم الحساب!',
+
+    'backup.title': 'النسخ الاحتياطي',
+    'backup.export': '💾 تصدير',
+    'backup.import': '📂 استيراد',
+    'backup.saved': 'حُفظت في {date}',
+    'backup.savedUnknown': 'تاريخ الحفظ غير معروف',
+    'backup.summary': 'المستوى {level} · {emeralds} 🟩 · {answers} إجابة · {tests} اختبار',
+    'backup.damaged': 'بعض أجزاء هذا الملف تالفة وسيُعاد ضبطها: {fields}',
+    'backup.replaces': 'الاستيراد يستبدل تقدّم هذا اللاعب وإعداداته الحالية.',
+    'backup.confirmImport': 'استيراد',
+    'backup.undo': '↩️ التراجع عن إعادة الضبط ({date})',
+    'backup.notBackup': 'هذا الملف ليس نسخة احتياطية من Math Craft Village.',
+    'backup.tooNew': 'صُنعت هذه النسخة بإصدار أحدث من اللعبة. يرجى التحديث أولًا.',
+
+    'save.progress': 'التقدّم',
+    'save.settings': 'الإعدادات',
+    'save.classroom': 'الفصل',
+    'save.unreadable': 'تعذّرت قراءة {label} المحفوظ، فبدأ من جديد. احتفظنا بنسخة من الحفظ القديم.',
+    'save.damaged': 'جزء من {label} المحفوظ كان تالفًا وأُعيد ضبطه ({fields}). احتفظنا بنسخة من الحفظ القديم.',
+
+    'progress.title': 'تقدّم {name}',
+    'progress.week': 'الألعاب · آخر 7 أيام',
+    'progress.accuracy': '{accuracy}% من {attempts}',
+    'progress.notPlayed': 'لم تُلعب بعد',
+    'progress.everyFact': 'كل العمليات',
+    'progress.noAnswers': 'لا توجد إجابات مسجّلة لهذه اللعبة بعد.',
+    'progress.slowest': '🐢 الأبطأ',
+    'progress.missed': '🎯 الأكثر خطأ',
+    'progress.missedCount': '{n} أخطاء',
+    'progress.nothing': 'لا شيء بعد!',
+
+    'worksheet.title': 'ورقة تمارين',
+    'worksheet.games': 'الألعاب',
+    'worksheet.count': 'الأسئلة',
+    'worksheet.extras': 'على الورقة',
+    'worksheet.aids': '🔟 إطارات العشرة وخطوط الأعداد',
+    'worksheet.answerKey': '🔑 الإجابات',
+    'worksheet.focus': '🎯 المزيد من العمليات الصعبة على {name}',
+    'worksheet.focusNone': 'العب بعض الألعاب أولًا لتركّز الورقة على العمليات التي تحتاج إلى تدريب.',
+    'worksheet.seed': 'رقم الورقة',
+    'worksheet.newSeed': 'ورقة جديدة',
+    'worksheet.seedNote': 'الرقم نفسه يطبع دائمًا الورقة نفسها.',
+    'worksheet.seedNoteFocus': 'الرقم نفسه يطبع الورقة نفسها ما لم تُلعب إجابات جديدة.',
+    'worksheet.print': 'طباعة أو حفظ PDF',
+    'worksheet.noGames': 'اختر لعبة واحدة على الأقل.',
+    'worksheet.heading': 'تمارين {name} في الحساب',
+    'worksheet.date': 'التاريخ',
+    'worksheet.footer': 'الورقة رقم {seed}',
+    'worksheet.keyHeading': 'الإجابات · الورقة رقم {seed}',
+    'classroom.title': 'الفصل',
+    'classroom.assignments': 'المهام',
+    'classroom.noAssignments': 'لا توجد مهام بعد.',
+    'classroom.assignment': 'اختبار {game} حتى {rating}',
+    'classroom.due': 'آخر موعد {date}',
+    'classroom.ended': 'انتهت في {date}',
+    'classroom.removeConfirm': 'حذف مهمة {game}؟ تبقى الاختبارات التي أُجريت في التقارير.',
+    'classroom.newAssignment': 'مهمة جديدة للجميع',
+    'classroom.dueLabel': 'آخر يوم',
+    'classroom.setAssignment': 'تعيين المهمة',
+    'classroom.roster': 'قائمة التلاميذ',
+    'classroom.noStudents': 'لا يوجد تلاميذ بعد. اكتب أسماءهم في الأسفل.',
+    'classroom.student': 'التلميذ',
+    'classroom.testsTaken': 'الاختبارات',
+    'classroom.late': 'متأخر',
+    'classroom.key': '✅ تم بلوغ المستوى · النسبة أفضل محاولة · — لم يحاول منذ تعيين المهمة',
+    'classroom.namesPlaceholder': 'اسم في كل سطر، أو أسماء تفصلها فواصل',
+    'classroom.addStudents': 'إضافة {n} إلى القائمة',
+    'classroom.reports': 'التقارير',
+    'classroom.testsCsv': 'نتائج الاختبارات (CSV)',
+    'classroom.factsCsv': 'الدقة في كل عملية (CSV)',
+    'classroom.json': 'كل شيء (JSON)',
+    'classroom.sync': 'المزامنة',
+    'classroom.syncOn': 'تشغيل',
+    'classroom.syncOff': 'إيقاف',
+    'classroom.syncNow': 'زامن الآن',
+    'classroom.syncing': 'جارٍ الإرسال…',
+    'classroom.syncedAt': 'آخر مزامنة {date}',
+    'classroom.syncNever': 'لم تتم المزامنة بعد',
+    'classroom.syncNote': 'يرسل التقرير نفسه الموجود في ملف JSON إلى خادم على شبكتك المحلية، بعد كل اختبار وكلما ضغطت زامن الآن. لا يغادر شيء هذا الجهاز غير ذلك.',
+    'classroom.syncUnreachable': 'تعذّر الوصول إلى عنوان المزامنة. تأكد أنه يعمل وعلى الشبكة نفسها.',
+    'classroom.syncFailed': 'رفض خادم المزامنة الطلب (خطأ {status}).'
+};
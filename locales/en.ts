@@ -0,0 +1,330 @@
+// English is the reference catalog: every other language must provide the same keys.
+// {placeholders} are filled in by t(); in spoken lines numbers are spelled out first.
+export const en = {
+    'feedback.success': ["Thumbs up {name}!", "Bravo {name}!", "Amazing {name}!", "Keep going {name}!", "So cool {name}!", "You're a star {name}!"],
+    'feedback.wrong': ["Oops! Try again {name}!", "Almost there, {name}!", "You've got this, {name}!", "Keep trying, {name}!"],
+
+    'common.back': 'Back',
+    'common.cancel': 'Cancel',
+    'common.start': 'Start',
+    'common.ok': 'OK',
+    'common.perfect': 'Perfect {name}!',
+
+    'game.MAKE_TEN': 'Craft 10',
+    'game.NUMBER_HOP': 'Bridge',
+    'game.DOUBLES': 'Magic x2',
+    'game.COUNT_UP': 'Rescue',
+    'game.MISSING_ADDEND': 'Bridge Builder',
+    'game.BRIDGE_TEN': 'Ten Jump',
+
+    'test.MAKE_TEN': 'Bonds to {target}',
+    'test.NUMBER_HOP': 'Bridge Test',
+    'test.DOUBLES': 'Double Power',
+    'test.COUNT_UP': 'Count Up',
+    'test.MISSING_ADDEND': 'Missing Numbers',
+    'test.BRIDGE_TEN': 'Crossing 10',
+
+    'mode.TIMED': 'TIMED',
+    'mode.FREE': 'FREE',
+    'mode.STREAK': '🚂 20 Streak',
+
+    'rating.Diamond': 'Diamond',
+    'rating.Iron': 'Iron',
+    'rating.Wood': 'Wood',
+
+    'item.wood-tile': 'Oak Floor',
+    'item.stone-tile': 'Stone Path',
+    'item.steve': 'Miner Bob',
+    'item.zombie': 'Zombo',
+    'item.creeper': 'Boomer',
+    'item.diamond-block': 'Shiny Block',
+
+    'profiles.title': 'Who is playing?',
+    'profiles.new': 'New Player',
+    'profiles.namePlaceholder': 'Name',
+    'profiles.play': "Let's Play!",
+    'profiles.delete': 'Delete {name} and all of their progress?',
+    'profiles.classroom': 'Classroom',
+
+    'hub.resting': 'RESTING...',
+    'hub.tryOthers': 'Try Others!',
+    'hub.training': 'Training',
+    'hub.chest': 'Chest',
+    'hub.village': 'Village',
+    'hub.trophies': 'Trophies',
+    'hub.plan': "Today's Plan",
+    'hub.wakeWins': 'Wins to wake: {n}',
+    'hub.wakeMinutes': 'Minutes to wake: {n}',
+    'hub.noHearts': '❤️ in {n} min',
+
+    'daily.goalAnswers': 'Daily goal: {value}/{target} right answers',
+    'daily.goalMinutes': 'Daily goal: {value}/{target} minutes',
+    'daily.goalDone': '✅ Daily goal done!',
+    'daily.streak': '🔥 Streak: {n}',
+    'daily.bonusNext': 'Reach it for +{n} 🟩',
+    'daily.bonusEarned': 'Streak bonus +{n} 🟩',
+    'daily.calendar': 'Practice calendar',
+
+    'tests.title': 'Mastery Tests',
+    'tests.assigned': 'Task: reach {rating} by {date}',
+
+    'makeTen.instruction': 'Craft {target}!',
+    'makeTen.sub': 'Have: {have}. How many more?',
+    'makeTen.say': 'Craft {target}! You have {have}. Add more blocks to make {target}.',
+    'makeTen.heading': 'Make {target}!',
+    'makeTen.have': 'You have {have} blocks.',
+    'makeTen.ask': 'How many more blocks to make {target}?',
+
+    'doubles.instruction': 'Double it!',
+    'doubles.sub': 'Double {n}!',
+    'doubles.say': 'Double it! What is {a} plus {b}?',
+    'doubles.double': 'Double {n}',
+
+    'hop.forward': 'Start at {start}. Hop {jump}.',
+    'hop.back': 'Start at {start}. Hop back {jump}.',
+    'hop.forwardBlocks': 'Start at {start}. Hop {jump} blocks.',
+    'hop.backBlocks': 'Start at {start}. Hop back {jump} blocks.',
+    'hop.left': 'Hops Left: {n}',
+
+    'rescue.sub': 'Count up from {base} to {end}!',
+    'rescue.say': "Rescue mission! To solve {end} minus {base}, let's count up from {base} until we reach {end}.",
+    'rescue.heading': 'Rescue Mission!',
+    'rescue.prompt': "Let's count from {start} up to {end}!",
+    'rescue.reached': '{n}! Perfect {name}!',
+
+    'missing.sub': 'Which number fills the gap?',
+    'missing.heading': 'Build the Bridge!',
+    'missing.sayPlusSecond': '{a} plus what makes {result}?',
+    'missing.sayPlusFirst': 'What plus {b} makes {result}?',
+    'missing.sayMinusSecond': '{a} take away what leaves {result}?',
+    'missing.sayMinusFirst': 'What take away {b} leaves {result}?',
+    'missing.family': 'Fact family',
+
+    'bridgeTen.heading': 'Jump the Ten!',
+    'bridgeTen.sub': 'Make 10 first, then the rest!',
+    'bridgeTen.fillAsk': 'How many of the {b} fill the frame to 10?',
+    'bridgeTen.takeAsk': 'How many come off to get back to 10?',
+    'bridgeTen.totalAsk': 'Now finish it!',
+    'bridgeTen.sayFill': '{a} plus {b}. First fill the frame up to ten. How many does that take?',
+    'bridgeTen.sayTake': '{a} take away {b}. First take away down to ten. How many is that?',
+    'bridgeTen.sayPlusTotal': 'Ten, and {rest} more. So what is {a} plus {b}?',
+    'bridgeTen.sayMinusTotal': 'Ten, take away {rest} more. So what is {a} take away {b}?',
+
+    'play.timeUp': "Time's up!",
+    'play.freePlay': 'FREE PLAY MODE',
+    'play.streak': 'STREAK: {n}/20',
+    'play.question': 'QUESTION {n}/{total}',
+    'play.score': '{name} SCORE: {n}',
+    'play.backToHub': 'Back to Hub',
+
+    'results.trial': 'Trial Report',
+    'results.hero': 'Hero {name}!',
+    'results.mastery': '{rating} Mastery',
+    'results.accuracy': 'Accuracy: {score}%',
+    'results.detail': '{correct}/{questions} right · {seconds}s each',
+    'results.playAgain': 'Play Again',
+    'results.home': 'Return Hub',
+
+    'shop.title': 'Village Chest',
+    'shop.equipped': 'EQUIPPED',
+    'shop.useNow': 'USE NOW',
+    'shop.buyBlock': 'x{count} · +1 for {price} 🟩',
+    'shop.close': 'Close Shop',
+
+    'village.title': 'My Village',
+    'village.plots': '{n} plots open · Level up for more land!',
+    'village.empty': 'Your chest is empty. Visit the shop! 📦',
+    'village.help': 'Pick something from your chest, then tap a plot. Tap a plot again to pick it back up.',
+
+    'parent.title': 'Parent Controls',
+    'parent.language': 'Language',
+    'parent.difficulty': 'Difficulty Level',
+    'parent.skills': 'Math Skills',
+    'parent.opsPlus': 'Addition Only',
+    'parent.opsMinus': 'Subtraction Only',
+    'parent.opsMixed': 'Mixed (+ / −)',
+    'parent.opsMinusNote': '{a} and {b} always practise addition.',
+    'parent.bonds': 'Number Bonds · {game}',
+    'parent.bondsTo': 'to {n}',
+    'parent.timer': 'Timer Speed',
+    'parent.session': 'Session Length',
+    'parent.oneHanded': 'One-Handed Mode',
+    'parent.handsBoth': 'Both Hands',
+    'parent.handsLeft': '👈 Left',
+    'parent.handsRight': 'Right 👉',
+    'parent.hints': 'Helper Hints',
+    'parent.hintsOn': '💡 Show Hints',
+    'parent.hintsOff': 'No Hints',
+    'parent.typed': 'Type the Answer',
+    'parent.typedNote': 'Picked games show a number pad instead of answer buttons.',
+    'parent.progress': '📊 Progress Report',
+    'parent.worksheet': '🖨️ Print a Worksheet',
+    'parent.erase': 'Erase Progress',
+    'parent.saveExit': 'Save & Exit',
+    'parent.resetConfirm': 'Reset everything for {name}?',
+    'parent.undoConfirm': "Bring back {name}'s progress from before the reset?",
+
+    'custom.title': 'Custom Fact List',
+    'custom.on': '📝 My List',
+    'custom.off': 'All Facts',
+    'custom.placeholder': 'e.g. 1 + 9, 2 + 9, 12 − 9',
+    'custom.invalid': "These couldn't be read: {facts}",
+    'custom.addPlus': 'Add +{n} facts',
+    'custom.addMinus': 'Add −{n} facts',
+    'custom.clear': 'Clear',
+    'custom.usedBy': 'Asked in: {games}. Other games keep their usual facts.',
+    'custom.usedByNone': 'No game can ask these facts at this difficulty, so every game keeps its usual facts.',
+
+    'goal.title': 'Daily Goal',
+    'goal.answers': '✅ Right Answers',
+    'goal.minutes': '⏱️ Minutes',
+    'goal.minutesValue': '{n} min',
+    'goal.penaltiesOn': '❤️ Use Hearts',
+    'goal.penaltiesOff': '🌈 No Penalties',
+    'goal.heartsNote': 'Wrong answers in streak runs cost a heart. One comes back every {n} minutes.',
+    'goal.penaltiesNote': 'Wrong answers never cost hearts, and a missed day pauses the streak instead of ending it.',
+
+    'rotation.title': 'Game Rotation',
+    'rotation.on': '🔄 Rest Games',
+    'rotation.off': 'Play Anything',
+    'rotation.wins': '🏆 Count Wins',
+    'rotation.minutes': '⏱️ Count Minutes',
+    'rotation.threshold': 'Rest a game after',
+    'rotation.cooldown': 'Wake it after, on others',
+    'rotation.winsValue': '{n} wins',
+    'rotation.minutesValue': '{n} min',
+    'rotation.modes': 'Counts in',
+    'rotation.winsNote': 'A win is {n} right answers, so a long streak counts for more than a short round.',
+    'rotation.planOn': "📅 Show Today's Plan",
+    'rotation.planOff': 'No Plan',
+    'rotation.planNote': 'Picks {n} games a day, least mastered first. Each is done after {answers} right answers.',
+
+    'achievement.first-steps': 'First Steps',
+    'achievement.first-steps.desc': 'Get 10 answers right',
+    'achievement.bonds-100': 'Bond Master',
+    'achievement.bonds-100.desc': 'Get 100 right in {game}',
+    'achievement.doubles-streak': 'Double Trouble',
+    'achievement.doubles-streak.desc': 'Get 20 in a row in {game}',
+    'achievement.explorer': 'Explorer',
+    'achievement.explorer.desc': 'Get an answer right in every game',
+    'achievement.week-streak': 'On Fire',
+    'achievement.week-streak.desc': 'Meet the daily goal 7 days in a row',
+    'achievement.diamond-sword': 'Diamond Sword',
+    'achievement.diamond-sword.desc': 'Reach Diamond in every mastery test',
+    'achievement.builder': 'Village Builder',
+    'achievement.builder.desc': 'Place 10 blocks in your village',
+    'achievement.treasure': 'Treasure Hunter',
+    'achievement.treasure.desc': 'Save up 500 emeralds',
+    'trophies.title': 'Trophy Room',
+    'trophies.count': '{n}/{total} unlocked',
+    'trophies.earned': 'Earned {date}',
+    'trophies.unlocked': 'Achievement unlocked!',
+    'trophies.swordForged': 'Diamond Sword forged!',
+    'trophies.swordHint': 'Reach Diamond in every test to forge the Diamond Sword ({n}/{total}).',
+
+    'sound.title': 'Sound',
+    'sound.on': '🔊 Sound On',
+    'sound.off': '🔇 All Off',
+    'sound.voice': '🗣️ Voice',
+    'sound.sfx': '🔔 Effects',
+    'sound.music': '🎵 Music',
+    'sound.mute': 'Mute',
+    'sound.muted': 'Muted',
+
+    'voice.title': 'Voice',
+    'voice.auto': 'Best',
+    'voice.gemini': 'AI Voice',
+    'voice.device': 'Device',
+    'voice.off': 'Silent',
+    'voice.accent': 'Accent',
+    'voice.aiVoice': 'AI Voice',
+    'voice.deviceVoice': 'Device Voice',
+    'voice.default': 'Default',
+    'voice.speed': 'Speed {n}x',
+    'voice.pitch': 'Pitch {n}',
+    'voice.test': '🔊 Test Voice',
+    'voice.testLine': "Hello! Let's do some maths!",
+
+    'backup.title': 'Backup',
+    'backup.export': '💾 Export',
+    'backup.import': '📂 Import',
+    'backup.saved': 'Saved {date}',
+    'backup.savedUnknown': 'Saved on an unknown date',
+    'backup.summary': 'Level {level} · {emeralds} 🟩 · {answers} answers · {tests} tests taken',
+    'backup.damaged': 'Some parts of this file were damaged and will be reset: {fields}',
+    'backup.replaces': "Importing replaces this player's current progress and settings.",
+    'backup.confirmImport': 'Import',
+    'backup.undo': '↩️ Undo Reset ({date})',
+    'backup.notBackup': "This file isn't a Math Craft Village backup.",
+    'backup.tooNew': 'This backup was made by a newer version of the game. Please update first.',
+
+    'save.progress': 'progress',
+    'save.settings': 'settings',
+    'save.classroom': 'classroom',
+    'save.unreadable': 'The saved {label} could not be read, so it was started fresh. A copy of the old save was kept.',
+    'save.damaged': 'Some saved {label} was damaged and has been reset ({fields}). A copy of the old save was kept.',
+
+    'progress.title': "{name}'s Progress",
+    'progress.week': 'Games · Last 7 Days',
+    'progress.accuracy': '{accuracy}% of {attempts}',
+    'progress.notPlayed': 'Not played',
+    'progress.everyFact': 'Every Fact',
+    'progress.noAnswers': 'No answers recorded for this game yet.',
+    'progress.slowest': '🐢 Slowest Facts',
+    'progress.missed': '🎯 Most Missed',
+    'progress.missedCount': '{n} missed',
+    'progress.nothing': 'Nothing yet!',
+
+    'worksheet.title': 'Worksheet',
+    'worksheet.games': 'Games',
+    'worksheet.count': 'Questions',
+    'worksheet.extras': 'On the Sheet',
+    'worksheet.aids': '🔟 Ten-frames & number lines',
+    'worksheet.answerKey': '🔑 Answer key',
+    'worksheet.focus': "🎯 More of {name}'s hard facts",
+    'worksheet.focusNone': 'Play a few games first to aim the sheet at the facts that need practice.',
+    'worksheet.seed': 'Sheet Number',
+    'worksheet.newSeed': 'New Sheet',
+    'worksheet.seedNote': 'The same number always prints the same sheet.',
+    'worksheet.seedNoteFocus': 'The same number prints the same sheet until more answers are played.',
+    'worksheet.print': 'Print or Save as PDF',
+    'worksheet.noGames': 'Pick at least one game.',
+    'worksheet.heading': "{name}'s Maths Practice",
+    'worksheet.date': 'Date',
+    'worksheet.footer': 'Sheet #{seed}',
+    'worksheet.keyHeading': 'Answers · Sheet #{seed}',
+    'classroom.title': 'Classroom',
+    'classroom.assignments': 'Tasks',
+    'classroom.noAssignments': 'No tasks set yet.',
+    'classroom.assignment': '{game} test to {rating}',
+    'classroom.due': 'Due {date}',
+    'classroom.ended': 'Ended {date}',
+    'classroom.removeConfirm': 'Remove the {game} task? Tests already taken stay in the reports.',
+    'classroom.newAssignment': 'New task for everyone',
+    'classroom.dueLabel': 'Last day',
+    'classroom.setAssignment': 'Set task',
+    'classroom.roster': 'Roster',
+    'classroom.noStudents': 'No students yet. Type their names below.',
+    'classroom.student': 'Student',
+    'classroom.testsTaken': 'Tests',
+    'classroom.late': 'late',
+    'classroom.key': '✅ rating reached · a score is the best try so far · — not tried since the task was set',
+    'classroom.namesPlaceholder': 'One name per line, or separated by commas',
+    'classroom.addStudents': 'Add {n} to the roster',
+    'classroom.reports': 'Reports',
+    'classroom.testsCsv': 'Test results (CSV)',
+    'classroom.factsCsv': 'Fact accuracy (CSV)',
+    'classroom.json': 'Everything (JSON)',
+    'classroom.sync': 'Sync',
+    'classroom.syncOn': 'On',
+    'classroom.syncOff': 'Off',
+    'classroom.syncNow': 'Sync now',
+    'classroom.syncing': 'Syncing…',
+    'classroom.syncedAt': 'Last synced {date}',
+    'classroom.syncNever': 'Not synced yet',
+    'classroom.syncNote': 'Sends the same report as the JSON file to a server on your own network, after every finished test and whenever you press Sync now. Nothing leaves this device otherwise.',
+    'classroom.syncUnreachable': "Couldn't reach the sync address. Check it is on and on the same network.",
+    'classroom.syncFailed': 'The sync server said no (error {status}).'
+};
+
+export type Messages = typeof en;
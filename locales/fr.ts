@@ -0,0 +1,328 @@
+import { Messages } from './en';
+
+export const fr: Messages = {
+    'feedback.success': ["Super {name} !", "Bravo {name} !", "Génial {name} !", "Continue {name} !", "Trop fort {name} !", "Tu es une star {name} !"],
+    'feedback.wrong': ["Oups ! Essaie encore {name} !", "Presque, {name} !", "Tu vas y arriver, {name} !", "Continue d'essayer, {name} !"],
+
+    'common.back': 'Retour',
+    'common.cancel': 'Annuler',
+    'common.start': 'Go',
+    'common.ok': 'OK',
+    'common.perfect': 'Parfait {name} !',
+
+    'game.MAKE_TEN': 'Fais 10',
+    'game.NUMBER_HOP': 'Le Pont',
+    'game.DOUBLES': 'Magie x2',
+    'game.COUNT_UP': 'Sauvetage',
+    'game.MISSING_ADDEND': 'Bâtisseur de ponts',
+    'game.BRIDGE_TEN': 'Saut de dix',
+
+    'test.MAKE_TEN': 'Compléments à {target}',
+    'test.NUMBER_HOP': 'Épreuve du Pont',
+    'test.DOUBLES': 'Pouvoir Double',
+    'test.COUNT_UP': 'Compter en avançant',
+    'test.MISSING_ADDEND': 'Nombres manquants',
+    'test.BRIDGE_TEN': 'Passer la dizaine',
+
+    'mode.TIMED': 'CHRONO',
+    'mode.FREE': 'LIBRE',
+    'mode.STREAK': '🚂 Série de 20',
+
+    'rating.Diamond': 'Diamant',
+    'rating.Iron': 'Fer',
+    'rating.Wood': 'Bois',
+
+    'item.wood-tile': 'Parquet de chêne',
+    'item.stone-tile': 'Chemin de pierre',
+    'item.steve': 'Bob le Mineur',
+    'item.zombie': 'Zombo',
+    'item.creeper': 'Boomer',
+    'item.diamond-block': 'Bloc brillant',
+
+    'profiles.title': 'Qui joue ?',
+    'profiles.new': 'Nouveau joueur',
+    'profiles.namePlaceholder': 'Prénom',
+    'profiles.play': 'On joue !',
+    'profiles.delete': 'Supprimer {name} et toute sa progression ?',
+    'profiles.classroom': 'Classe',
+
+    'hub.resting': 'EN PAUSE...',
+    'hub.tryOthers': 'Essaie les autres !',
+    'hub.training': 'Entraînement',
+    'hub.chest': 'Coffre',
+    'hub.village': 'Village',
+    'hub.trophies': 'Trophées',
+    'hub.plan': 'Au programme',
+    'hub.wakeWins': 'Réveil dans {n} victoires',
+    'hub.wakeMinutes': 'Réveil dans {n} min',
+    'hub.noHearts': '❤️ dans {n} min',
+
+    'daily.goalAnswers': 'Objectif du jour : {value}/{target} bonnes réponses',
+    'daily.goalMinutes': 'Objectif du jour : {value}/{target} minutes',
+    'daily.goalDone': '✅ Objectif du jour atteint !',
+    'daily.streak': '🔥 Série : {n}',
+    'daily.bonusNext': 'Atteins-le pour +{n} 🟩',
+    'daily.bonusEarned': 'Bonus de série +{n} 🟩',
+    'daily.calendar': 'Calendrier d’entraînement',
+
+    'tests.title': 'Épreuves de maîtrise',
+    'tests.assigned': 'Devoir : atteindre {rating} avant le {date}',
+
+    'makeTen.instruction': 'Fais {target} !',
+    'makeTen.sub': 'Tu as {have}. Combien en plus ?',
+    'makeTen.say': 'Fais {target} ! Tu as {have}. Ajoute des blocs pour faire {target}.',
+    'makeTen.heading': 'Fais {target} !',
+    'makeTen.have': 'Tu as {have} blocs.',
+    'makeTen.ask': 'Combien de blocs en plus pour faire {target} ?',
+
+    'doubles.instruction': 'Le double !',
+    'doubles.sub': 'Le double de {n} !',
+    'doubles.say': 'Le double ! Combien font {a} plus {b} ?',
+    'doubles.double': 'Le double de {n}',
+
+    'hop.forward': 'Pars de {start}. Saute {jump}.',
+    'hop.back': 'Pars de {start}. Recule de {jump}.',
+    'hop.forwardBlocks': 'Pars de {start}. Avance de {jump} blocs.',
+    'hop.backBlocks': 'Pars de {start}. Recule de {jump} blocs.',
+    'hop.left': 'Sauts restants : {n}',
+
+    'rescue.sub': 'Compte de {base} jusqu’à {end} !',
+    'rescue.say': 'Mission sauvetage ! Pour trouver {end} moins {base}, comptons de {base} jusqu’à {end}.',
+    'rescue.heading': 'Mission sauvetage !',
+    'rescue.prompt': 'Comptons de {start} jusqu’à {end} !',
+    'rescue.reached': '{n} ! Parfait {name} !',
+
+    'missing.sub': 'Quel nombre comble le trou ?',
+    'missing.heading': 'Construis le pont !',
+    'missing.sayPlusSecond': '{a} plus combien font {result} ?',
+    'missing.sayPlusFirst': 'Combien plus {b} font {result} ?',
+    'missing.sayMinusSecond': '{a} moins combien font {result} ?',
+    'missing.sayMinusFirst': 'Combien moins {b} font {result} ?',
+    'missing.family': 'La famille de calculs',
+
+    'bridgeTen.heading': 'Saute la dizaine !',
+    'bridgeTen.sub': 'D’abord 10, puis le reste !',
+    'bridgeTen.fillAsk': 'Combien des {b} remplissent le cadre jusqu’à 10 ?',
+    'bridgeTen.takeAsk': 'Combien faut-il enlever pour revenir à 10 ?',
+    'bridgeTen.totalAsk': 'Maintenant, termine !',
+    'bridgeTen.sayFill': '{a} plus {b}. D’abord, remplis le cadre jusqu’à dix. Il en faut combien ?',
+    'bridgeTen.sayTake': '{a} moins {b}. D’abord, enlève jusqu’à dix. Ça fait combien ?',
+    'bridgeTen.sayPlusTotal': 'Dix, et encore {rest}. Alors, combien font {a} plus {b} ?',
+    'bridgeTen.sayMinusTotal': 'Dix, moins encore {rest}. Alors, combien font {a} moins {b} ?',
+
+    'play.timeUp': 'Temps écoulé !',
+    'play.freePlay': 'JEU LIBRE',
+    'play.streak': 'SÉRIE : {n}/20',
+    'play.question': 'QUESTION {n}/{total}',
+    'play.score': 'SCORE DE {name} : {n}',
+    'play.backToHub': 'Retour au village',
+
+    'results.trial': 'Bilan de l’épreuve',
+    'results.hero': 'Bravo {name} !',
+    'results.mastery': 'Maîtrise {rating}',
+    'results.accuracy': 'Réussite : {score} %',
+    'results.detail': '{correct}/{questions} justes · {seconds} s chacune',
+    'results.playAgain': 'Rejouer',
+    'results.home': 'Retour au village',
+
+    'shop.title': 'Coffre du village',
+    'shop.equipped': 'ÉQUIPÉ',
+    'shop.useNow': 'UTILISER',
+    'shop.buyBlock': 'x{count} · +1 pour {price} 🟩',
+    'shop.close': 'Fermer le coffre',
+
+    'village.title': 'Mon village',
+    'village.plots': '{n} parcelles ouvertes · Monte de niveau pour plus de terrain !',
+    'village.empty': 'Ton coffre est vide. Va à la boutique ! 📦',
+    'village.help': 'Choisis un objet dans ton coffre, puis touche une parcelle. Touche-la encore pour le reprendre.',
+
+    'parent.title': 'Espace parents',
+    'parent.language': 'Langue',
+    'parent.difficulty': 'Niveau de difficulté',
+    'parent.skills': 'Compétences',
+    'parent.opsPlus': 'Additions seulement',
+    'parent.opsMinus': 'Soustractions seulement',
+    'parent.opsMixed': 'Mélangé (+ / −)',
+    'parent.opsMinusNote': '{a} et {b} travaillent toujours l’addition.',
+    'parent.bonds': 'Compléments · {game}',
+    'parent.bondsTo': 'à {n}',
+    'parent.timer': 'Durée du chrono',
+    'parent.session': 'Durée de la séance',
+    'parent.oneHanded': 'Mode une main',
+    'parent.handsBoth': 'Deux mains',
+    'parent.handsLeft': '👈 Gauche',
+    'parent.handsRight': 'Droite 👉',
+    'parent.hints': 'Aides',
+    'parent.hintsOn': '💡 Montrer les aides',
+    'parent.hintsOff': 'Sans aide',
+    'parent.typed': 'Taper la réponse',
+    'parent.typedNote': 'Les jeux choisis affichent un pavé numérique au lieu des boutons de réponse.',
+    'parent.progress': '📊 Suivi des progrès',
+    'parent.worksheet': '🖨️ Imprimer une fiche',
+    'parent.erase': 'Effacer la progression',
+    'parent.saveExit': 'Enregistrer et quitter',
+    'parent.resetConfirm': 'Tout réinitialiser pour {name} ?',
+    'parent.undoConfirm': 'Récupérer la progression de {name} d’avant la réinitialisation ?',
+
+    'custom.title': 'Liste de calculs',
+    'custom.on': '📝 Ma liste',
+    'custom.off': 'Tous les calculs',
+    'custom.placeholder': 'ex. 1 + 9, 2 + 9, 12 − 9',
+    'custom.invalid': 'Illisibles : {facts}',
+    'custom.addPlus': 'Ajouter les +{n}',
+    'custom.addMinus': 'Ajouter les −{n}',
+    'custom.clear': 'Vider',
+    'custom.usedBy': 'Posés dans : {games}. Les autres jeux gardent leurs calculs habituels.',
+    'custom.usedByNone': 'Aucun jeu ne peut poser ces calculs à ce niveau : chaque jeu garde ses calculs habituels.',
+
+    'goal.title': 'Objectif du jour',
+    'goal.answers': '✅ Bonnes réponses',
+    'goal.minutes': '⏱️ Minutes',
+    'goal.minutesValue': '{n} min',
+    'goal.penaltiesOn': '❤️ Avec les cœurs',
+    'goal.penaltiesOff': '🌈 Sans pénalité',
+    'goal.heartsNote': 'En mode série, une erreur coûte un cœur. Un cœur revient toutes les {n} minutes.',
+    'goal.penaltiesNote': 'Les erreurs ne coûtent jamais de cœur, et un jour manqué met la série en pause au lieu de l’arrêter.',
+
+    'rotation.title': 'Rotation des jeux',
+    'rotation.on': '🔄 Faire des pauses',
+    'rotation.off': 'Tout est ouvert',
+    'rotation.wins': '🏆 Compter les victoires',
+    'rotation.minutes': '⏱️ Compter les minutes',
+    'rotation.threshold': 'Pause après',
+    'rotation.cooldown': 'Réveil après, sur les autres',
+    'rotation.winsValue': '{n} victoires',
+    'rotation.minutesValue': '{n} min',
+    'rotation.modes': 'Compte en',
+    'rotation.winsNote': 'Une victoire vaut {n} bonnes réponses : une longue série compte plus qu’une courte partie.',
+    'rotation.planOn': '📅 Afficher le programme du jour',
+    'rotation.planOff': 'Pas de programme',
+    'rotation.planNote': 'Choisit {n} jeux par jour, les moins maîtrisés d’abord. Chacun est fait après {answers} bonnes réponses.',
+
+    'achievement.first-steps': 'Premiers pas',
+    'achievement.first-steps.desc': 'Donne 10 bonnes réponses',
+    'achievement.bonds-100': 'Maître des compléments',
+    'achievement.bonds-100.desc': 'Réussis 100 fois à {game}',
+    'achievement.doubles-streak': 'Double dose',
+    'achievement.doubles-streak.desc': 'Réussis 20 fois de suite à {game}',
+    'achievement.explorer': 'Explorateur',
+    'achievement.explorer.desc': 'Réussis une réponse dans chaque jeu',
+    'achievement.week-streak': 'En feu',
+    'achievement.week-streak.desc': 'Atteins l’objectif du jour 7 jours de suite',
+    'achievement.diamond-sword': 'Épée de diamant',
+    'achievement.diamond-sword.desc': 'Obtiens Diamant à chaque épreuve',
+    'achievement.builder': 'Bâtisseur',
+    'achievement.builder.desc': 'Place 10 blocs dans ton village',
+    'achievement.treasure': 'Chasseur de trésor',
+    'achievement.treasure.desc': 'Économise 500 émeraudes',
+    'trophies.title': 'Salle des trophées',
+    'trophies.count': '{n}/{total} débloqués',
+    'trophies.earned': 'Obtenu le {date}',
+    'trophies.unlocked': 'Succès débloqué !',
+    'trophies.swordForged': 'Épée de diamant forgée !',
+    'trophies.swordHint': 'Obtiens Diamant à chaque épreuve pour forger l’épée de diamant ({n}/{total}).',
+
+    'sound.title': 'Son',
+    'sound.on': '🔊 Son activé',
+    'sound.off': '🔇 Tout couper',
+    'sound.voice': '🗣️ Voix',
+    'sound.sfx': '🔔 Effets',
+    'sound.music': '🎵 Musique',
+    'sound.mute': 'Couper',
+    'sound.muted': 'Coupé',
+
+    'voice.title': 'Voix',
+    'voice.auto': 'Auto',
+    'voice.gemini': 'Voix IA',
+    'voice.device': 'Appareil',
+    'voice.off': 'Muet',
+    'voice.accent': 'Accent',
+    'voice.aiVoice': 'Voix IA',
+    'voice.deviceVoice': 'Voix de l’appareil',
+    'voice.default': 'Par défaut',
+    'voice.speed': 'Vitesse {n}x',
+    'voice.pitch': 'Hauteur {n}',
+    'voice.test': '🔊 Tester la voix',
+    'voice.testLine': 'Bonjour ! On fait des maths ?',
+
+    'backup.title': 'Sauvegarde',
+    'backup.export': '💾 Exporter',
+    'backup.import': '📂 Importer',
+    'backup.saved': 'Enregistrée le {date}',
+    'backup.savedUnknown': 'Date d’enregistrement inconnue',
+    'backup.summary': 'Niveau {level} · {emeralds} 🟩 · {answers} réponses · {tests} épreuves passées',
+    'backup.damaged': 'Certaines parties de ce fichier sont abîmées et seront réinitialisées : {fields}',
+    'backup.replaces': 'L’import remplace la progression et les réglages actuels de ce joueur.',
+    'backup.confirmImport': 'Importer',
+    'backup.undo': '↩️ Annuler la réinitialisation ({date})',
+    'backup.notBackup': 'Ce fichier n’est pas une sauvegarde de Math Craft Village.',
+    'backup.tooNew': 'Cette sauvegarde vient d’une version plus récente du jeu. Mettez-le à jour d’abord.',
+
+    'save.progress': 'progression',
+    'save.settings': 'réglages',
+    'save.classroom': 'classe',
+    'save.unreadable': 'La sauvegarde ({label}) était illisible, elle a été remise à zéro. Une copie de l’ancienne a été conservée.',
+    'save.damaged': 'Une partie de la sauvegarde ({label}) était abîmée et a été réinitialisée ({fields}). Une copie de l’ancienne a été conservée.',
+
+    'progress.title': 'Progrès de {name}',
+    'progress.week': 'Jeux · 7 derniers jours',
+    'progress.accuracy': '{accuracy} % sur {attempts}',
+    'progress.notPlayed': 'Pas encore joué',
+    'progress.everyFact': 'Tous les calculs',
+    'progress.noAnswers': 'Aucune réponse pour ce jeu pour l’instant.',
+    'progress.slowest': '🐢 Les plus lents',
+    'progress.missed': '🎯 Les plus ratés',
+    'progress.missedCount': '{n} ratés',
+    'progress.nothing': 'Rien pour l’instant !',
+
+    'worksheet.title': "Fiche d'exercices",
+    'worksheet.games': 'Jeux',
+    'worksheet.count': 'Questions',
+    'worksheet.extras': 'Sur la fiche',
+    'worksheet.aids': '🔟 Cadres de dix et droites numériques',
+    'worksheet.answerKey': '🔑 Corrigé',
+    'worksheet.focus': '🎯 Plus de calculs difficiles pour {name}',
+    'worksheet.focusNone': "Joue d'abord quelques parties pour cibler les calculs à travailler.",
+    'worksheet.seed': 'Numéro de fiche',
+    'worksheet.newSeed': 'Nouvelle fiche',
+    'worksheet.seedNote': 'Le même numéro imprime toujours la même fiche.',
+    'worksheet.seedNoteFocus': "Le même numéro imprime la même fiche tant qu'aucune nouvelle réponse n'est jouée.",
+    'worksheet.print': 'Imprimer ou enregistrer en PDF',
+    'worksheet.noGames': 'Choisis au moins un jeu.',
+    'worksheet.heading': 'Entraînement de {name}',
+    'worksheet.date': 'Date',
+    'worksheet.footer': 'Fiche n° {seed}',
+    'worksheet.keyHeading': 'Corrigé · Fiche n° {seed}',
+    'classroom.title': 'Classe',
+    'classroom.assignments': 'Devoirs',
+    'classroom.noAssignments': 'Aucun devoir pour le moment.',
+    'classroom.assignment': 'Épreuve {game} niveau {rating}',
+    'classroom.due': 'Pour le {date}',
+    'classroom.ended': 'Terminé le {date}',
+    'classroom.removeConfirm': 'Retirer le devoir {game} ? Les épreuves déjà passées restent dans les rapports.',
+    'classroom.newAssignment': 'Nouveau devoir pour tous',
+    'classroom.dueLabel': 'Dernier jour',
+    'classroom.setAssignment': 'Donner le devoir',
+    'classroom.roster': 'Élèves',
+    'classroom.noStudents': 'Aucun élève pour le moment. Tapez leurs prénoms ci-dessous.',
+    'classroom.student': 'Élève',
+    'classroom.testsTaken': 'Épreuves',
+    'classroom.late': 'en retard',
+    'classroom.key': '✅ niveau atteint · un score est le meilleur essai · — pas d’essai depuis le devoir',
+    'classroom.namesPlaceholder': 'Un prénom par ligne, ou séparés par des virgules',
+    'classroom.addStudents': 'Ajouter {n} élève(s)',
+    'classroom.reports': 'Rapports',
+    'classroom.testsCsv': 'Résultats des épreuves (CSV)',
+    'classroom.factsCsv': 'Réussite par calcul (CSV)',
+    'classroom.json': 'Tout (JSON)',
+    'classroom.sync': 'Synchronisation',
+    'classroom.syncOn': 'Activée',
+    'classroom.syncOff': 'Désactivée',
+    'classroom.syncNow': 'Synchroniser',
+    'classroom.syncing': 'Envoi…',
+    'classroom.syncedAt': 'Dernier envoi le {date}',
+    'classroom.syncNever': 'Jamais synchronisé',
+    'classroom.syncNote': 'Envoie le même rapport que le fichier JSON à un serveur de votre réseau local, après chaque épreuve terminée et quand vous appuyez sur Synchroniser. Sinon, rien ne quitte cet appareil.',
+    'classroom.syncUnreachable': 'Adresse de synchronisation injoignable. Vérifiez qu’elle est allumée et sur le même réseau.',
+    'classroom.syncFailed': 'Le serveur a refusé l’envoi (erreur {status}).'
+};
@@ -0,0 +1,52 @@
+// Offline support: the app shell and every asset it loads (including the Tailwind,
+// font and esm.sh CDNs) are cached on first use, so the game keeps working offline.
+const CACHE_NAME = 'mathVillage-shell-v1';
+const SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'esm.sh'];
+
+self.addEventListener('install', event => {
+    event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+    event.waitUntil(
+        caches.keys()
+            .then(keys => Promise.all(keys.filter(k => k.startsWith('mathVillage-shell-') && k !== CACHE_NAME).map(k => caches.delete(k))))
+            .then(() => self.clients.claim())
+    );
+});
+
+const putInCache = (request, response) => {
+    // Opaque responses (cross-origin no-cors) are fine to keep; errors are not
+    if (response && (response.ok || response.type === 'opaque')) {
+        const copy = response.clone();
+        caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+    }
+    return response;
+};
+
+self.addEventListener('fetch', event => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+    const isSameOrigin = url.origin === self.location.origin;
+    if (!isSameOrigin && !CDN_HOSTS.includes(url.hostname)) return;
+
+    // Pages: network first so updates arrive, cached shell when offline
+    if (request.mode === 'navigate') {
+        event.respondWith(
+            fetch(request)
+                .then(response => putInCache(request, response))
+                .catch(() => caches.match(request).then(cached => cached || caches.match('/index.html')))
+        );
+        return;
+    }
+
+    // Everything else: cached copy straight away, refreshed in the background
+    event.respondWith(
+        caches.match(request).then(cached => {
+            const network = fetch(request).then(response => putInCache(request, response)).catch(() => cached);
+            return cached || network;
+        })
+    );
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { Attempt, GameType } from '../types';
+import { INITIAL_SETTINGS, INITIAL_STATE } from '../constants';
+import { playableGames } from '../games';
+import { getNewAchievements } from './achievements';
+
+const rightIn = (gameType: GameType): Attempt =>
+    ({ gameType, a: 1, b: 1, op: '+', answer: 2, given: 2, correct: true, responseMs: 2000, at: 0 });
+
+describe('getNewAchievements', () => {
+    // Bridging through ten has nothing to ask at range 10, so it can't be needed for "every game"
+    const games = playableGames(INITIAL_SETTINGS).map(game => game.type);
+    // Right in every game and Diamond in every test offered at range 10
+    const state = { ...INITIAL_STATE, attempts: games.map(rightIn), testScores: Object.fromEntries(games.map(type => [type, 95])) };
+
+    it('counts only the games there are questions for at range 10', () => {
+        expect(INITIAL_SETTINGS.range).toBe(10);
+        expect(games).not.toContain(GameType.BRIDGE_TEN);
+        const earned = getNewAchievements(state, INITIAL_SETTINGS).map(a => a.id);
+        expect(earned).toContain('explorer');
+        expect(earned).toContain('diamond-sword');
+    });
+
+    it('still needs bridging through ten once the range has room for it', () => {
+        const earned = getNewAchievements(state, { ...INITIAL_SETTINGS, range: 20 }).map(a => a.id);
+        expect(earned).not.toContain('explorer');
+        expect(earned).not.toContain('diamond-sword');
+    });
+});
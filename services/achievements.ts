@@ -0,0 +1,66 @@
+import { AppState, Attempt, GameType, Settings } from '../types';
+import { playableGames } from '../games';
+import { getMasteryRating } from './scoring';
+
+export type AchievementId =
+    | 'first-steps'
+    | 'bonds-100'
+    | 'doubles-streak'
+    | 'explorer'
+    | 'week-streak'
+    | 'diamond-sword'
+    | 'builder'
+    | 'treasure';
+
+// An achievement unlocks once its progress reaches the target, and stays unlocked
+// even if the progress later drops (a streak ends, emeralds are spent)
+export interface Achievement {
+    id: AchievementId;
+    icon: string;
+    // The game named in the description, if any
+    game?: GameType;
+    progress: (state: AppState, settings: Settings) => { value: number, target: number };
+}
+
+const correctIn = (attempts: Attempt[], type?: GameType) =>
+    attempts.filter(a => a.correct && (!type || a.gameType === type)).length;
+
+const longestRun = (attempts: Attempt[], type: GameType) => {
+    let best = 0;
+    let run = 0;
+    attempts.forEach(a => {
+        if (a.gameType !== type) return;
+        run = a.correct ? run + 1 : 0;
+        best = Math.max(best, run);
+    });
+    return best;
+};
+
+// "Every game" means every game there is something to ask in at the chosen range
+const gamesIn = (settings: Settings) => playableGames(settings).map(game => game.type);
+
+export const ACHIEVEMENTS: Achievement[] = [
+    { id: 'first-steps', icon: '👣', progress: s => ({ value: correctIn(s.attempts), target: 10 }) },
+    { id: 'bonds-100', icon: '🧱', game: GameType.MAKE_TEN, progress: s => ({ value: correctIn(s.attempts, GameType.MAKE_TEN), target: 100 }) },
+    { id: 'doubles-streak', icon: '🪄', game: GameType.DOUBLES, progress: s => ({ value: longestRun(s.attempts, GameType.DOUBLES), target: 20 }) },
+    { id: 'explorer', icon: '🧭', progress: (s, settings) => ({ value: gamesIn(settings).filter(type => correctIn(s.attempts, type) > 0).length, target: gamesIn(settings).length }) },
+    { id: 'week-streak', icon: '🔥', progress: s => ({ value: s.streak, target: 7 }) },
+    { id: 'diamond-sword', icon: '⚔️', progress: (s, settings) => ({ value: gamesIn(settings).filter(type => getMasteryRating(s.testScores[type] || 0) === 'Diamond').length, target: gamesIn(settings).length }) },
+    { id: 'builder', icon: '🏘️', progress: s => ({ value: s.village.filter(Boolean).length, target: 10 }) },
+    { id: 'treasure', icon: '💰', progress: s => ({ value: s.emeralds, target: 500 }) }
+];
+
+export const isUnlocked = (state: AppState, id: AchievementId) => !!state.achievements[id];
+
+export const getNewAchievements = (state: AppState, settings: Settings): Achievement[] =>
+    ACHIEVEMENTS.filter(a => {
+        if (isUnlocked(state, a.id)) return false;
+        const { value, target } = a.progress(state, settings);
+        return value >= target;
+    });
+
+export const unlockAchievements = (state: AppState, achievements: Achievement[], now: number = Date.now()): AppState => {
+    const unlocked = { ...state.achievements };
+    achievements.forEach(a => { if (!unlocked[a.id]) unlocked[a.id] = now; });
+    return { ...state, achievements: unlocked };
+};
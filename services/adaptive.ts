@@ -0,0 +1,90 @@
+import { Attempt, Fact, GameType, Settings } from '../types';
+import { factKey } from './stats';
+import { getGame } from '../games';
+import { Random } from './random';
+
+// Only the most recent answers to a fact count, so a fact that has since been learned cools down
+const RECENT_WINDOW = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface RecentFactStats {
+    attempts: number;
+    correct: number;
+    avgMs: number;
+    lastCorrect: boolean;
+    lastSeen: number;
+}
+
+// The facts on the parent's list among those a game can ask
+const listedFacts = (facts: Fact[], settings: Settings) => {
+    const listed = new Set(settings.customFacts.facts.map(factKey));
+    return facts.filter(f => listed.has(factKey(f)));
+};
+
+// Every fact a game can ask under the current settings, narrowed to the parent's list when it is on.
+// Games that can't ask anything on the list carry on as usual.
+export const candidateFacts = (type: GameType, settings: Settings): Fact[] => {
+    const facts = getGame(type).facts(settings);
+    if (!settings.customFacts.enabled) return facts;
+    const chosen = listedFacts(facts, settings);
+    return chosen.length > 0 ? chosen : facts;
+};
+
+export const usesCustomFacts = (type: GameType, settings: Settings) =>
+    settings.customFacts.enabled && listedFacts(getGame(type).facts(settings), settings).length > 0;
+
+const recentStatsByFact = (attempts: Attempt[], type: GameType) => {
+    const grouped: Record<string, Attempt[]> = {};
+    attempts.forEach(a => {
+        if (a.gameType !== type) return;
+        (grouped[factKey(a)] = grouped[factKey(a)] || []).push(a);
+    });
+    const result: Record<string, RecentFactStats> = {};
+    Object.entries(grouped).forEach(([key, list]) => {
+        const recent = list.slice(-RECENT_WINDOW);
+        const last = recent[recent.length - 1];
+        result[key] = {
+            attempts: recent.length,
+            correct: recent.filter(a => a.correct).length,
+            avgMs: recent.reduce((sum, a) => sum + a.responseMs, 0) / recent.length,
+            lastCorrect: last.correct,
+            lastSeen: last.at
+        };
+    });
+    return result;
+};
+
+// New facts weigh 1. Misses and slow answers push a fact up; a fact answered
+// quickly and correctly every time drops low and only climbs back over a few days.
+export const factWeight = (stats: RecentFactStats | undefined, now: number) => {
+    if (!stats) return 1;
+    const accuracy = stats.correct / stats.attempts;
+    const slowness = Math.min(1, Math.max(0, (stats.avgMs - 3000) / 5000));
+    const isMastered = stats.attempts >= 3 && accuracy === 1 && slowness === 0;
+    if (isMastered) {
+        const daysAway = (now - stats.lastSeen) / DAY_MS;
+        return 0.15 + Math.min(1, daysAway / 3) * 0.85;
+    }
+    const weight = 0.3 + (1 - accuracy) * 3 + slowness;
+    return stats.lastCorrect ? weight : weight * 2;
+};
+
+export const pickWeighted = <T>(items: T[], weights: number[], random: Random = Math.random): T => {
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    let roll = random() * total;
+    for (let i = 0; i < items.length; i++) {
+        roll -= weights[i];
+        if (roll < 0) return items[i];
+    }
+    return items[items.length - 1];
+};
+
+export const pickFact = (type: GameType, settings: Settings, attempts: Attempt[], previous?: Fact | null, now: number = Date.now(), random: Random = Math.random): Fact => {
+    let facts = candidateFacts(type, settings);
+    // Never ask the exact same question twice in a row
+    if (previous && facts.length > 1) {
+        facts = facts.filter(f => factKey(f) !== factKey(previous));
+    }
+    const stats = recentStatsByFact(attempts, type);
+    return pickWeighted(facts, facts.map(f => factWeight(stats[factKey(f)], now)), random);
+};
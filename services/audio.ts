@@ -0,0 +1,109 @@
+import { AudioChannel, Settings } from '../types';
+import { INITIAL_SETTINGS } from '../constants';
+
+// One AudioContext for the whole app, with a gain node per mixer channel.
+// Browsers keep it suspended until the first tap, so it is resumed on user input.
+let audioContext: AudioContext | null = null;
+const channelGains: Partial<Record<AudioChannel, GainNode>> = {};
+let mixer = { soundOn: INITIAL_SETTINGS.soundOn, channels: INITIAL_SETTINGS.mixer };
+
+export const getAudioContext = (): AudioContext | null => {
+    if (audioContext) return audioContext;
+    const AudioContextClass = typeof window !== 'undefined' && ((window as any).AudioContext || (window as any).webkitAudioContext);
+    if (!AudioContextClass) return null;
+    audioContext = new AudioContextClass() as AudioContext;
+    const resume = () => audioContext?.state === 'suspended' && audioContext.resume();
+    window.addEventListener('pointerdown', resume);
+    window.addEventListener('keydown', resume);
+    return audioContext;
+};
+
+export const getChannelVolume = (channel: AudioChannel) => {
+    const settings = mixer.channels[channel];
+    return mixer.soundOn && !settings.muted ? settings.volume : 0;
+};
+
+export const isAudible = (channel: AudioChannel) => getChannelVolume(channel) > 0;
+
+// Gain node that everything on a channel should connect to
+export const getChannelOutput = (channel: AudioChannel): GainNode | null => {
+    const ctx = getAudioContext();
+    if (!ctx) return null;
+    if (!channelGains[channel]) {
+        const gain = ctx.createGain();
+        gain.gain.value = getChannelVolume(channel);
+        gain.connect(ctx.destination);
+        channelGains[channel] = gain;
+    }
+    return channelGains[channel]!;
+};
+
+export const configureAudio = (settings: Pick<Settings, 'soundOn' | 'mixer'>) => {
+    mixer = { soundOn: settings.soundOn, channels: settings.mixer };
+    (Object.keys(channelGains) as AudioChannel[]).forEach(channel => {
+        channelGains[channel]!.gain.value = getChannelVolume(channel);
+    });
+    if (isAudible('music')) startMusic();
+    else stopMusic();
+};
+
+const playTone = (output: AudioNode, type: OscillatorType, start: number, duration: number, from: number, to: number, level: number) => {
+    const ctx = output.context;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = type;
+    osc.frequency.setValueAtTime(from, start);
+    if (to !== from) osc.frequency.exponentialRampToValueAtTime(to, start + duration / 3);
+    gain.gain.setValueAtTime(level, start);
+    gain.gain.exponentialRampToValueAtTime(0.01, start + duration);
+    osc.connect(gain);
+    gain.connect(output);
+    osc.start(start);
+    osc.stop(start + duration);
+};
+
+// Procedural Sound Effects using Web Audio API
+export const playSFX = (type: 'correct' | 'wrong' | 'victory') => {
+    if (!isAudible('sfx')) return;
+    try {
+        const output = getChannelOutput('sfx');
+        if (!output) return;
+        const now = output.context.currentTime;
+
+        if (type === 'correct') {
+            playTone(output, 'sine', now, 0.3, 600, 1200, 0.2);
+        } else if (type === 'wrong') {
+            playTone(output, 'square', now, 0.4, 150, 100, 0.1);
+        } else if (type === 'victory') {
+            // C-E-G-C arpeggio, one short note each, with the last one held
+            [523.25, 659.25, 783.99, 1046.50].forEach((freq, i) => {
+                playTone(output, 'triangle', now + i * 0.12, i === 3 ? 0.6 : 0.2, freq, freq, 0.2);
+            });
+        }
+    } catch (e) {
+        console.error("Audio failed", e);
+    }
+};
+
+// Background music: a slow pentatonic loop, scheduled a bar at a time
+const MUSIC_NOTES = [261.63, 293.66, 329.63, 392.0, 440.0, 392.0, 329.63, 293.66];
+const NOTE_SECONDS = 0.6;
+let musicTimer: ReturnType<typeof setInterval> | null = null;
+
+export const startMusic = () => {
+    if (musicTimer) return;
+    const scheduleBar = () => {
+        const output = getChannelOutput('music');
+        if (!output || output.context.state !== 'running') return;
+        const now = output.context.currentTime;
+        MUSIC_NOTES.forEach((freq, i) => playTone(output, 'sine', now + i * NOTE_SECONDS, NOTE_SECONDS * 0.9, freq, freq, 0.15));
+    };
+    scheduleBar();
+    musicTimer = setInterval(scheduleBar, MUSIC_NOTES.length * NOTE_SECONDS * 1000);
+};
+
+export const stopMusic = () => {
+    if (!musicTimer) return;
+    clearInterval(musicTimer);
+    musicTimer = null;
+};
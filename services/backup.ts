@@ -0,0 +1,75 @@
+import { AppState, Settings, Profile } from '../types';
+import { SAVE_VERSION, loadState, loadSettings } from './saveData';
+import { t } from './i18n';
+
+export const BACKUP_APP_ID = 'math-craft-village';
+
+export interface BackupFile {
+    app: string;
+    version: number;
+    exportedAt: number;
+    profile: Pick<Profile, 'name' | 'icon'>;
+    state: AppState;
+    settings: Settings;
+}
+
+export interface ParsedBackup {
+    profile: Pick<Profile, 'name' | 'icon'>;
+    exportedAt: number;
+    state: AppState;
+    settings: Settings;
+    problems: string[];
+}
+
+export const createBackup = (profile: Profile, state: AppState, settings: Settings): BackupFile => ({
+    app: BACKUP_APP_ID,
+    version: SAVE_VERSION,
+    exportedAt: Date.now(),
+    profile: { name: profile.name, icon: profile.icon },
+    state,
+    settings
+});
+
+export const downloadFile = (filename: string, contents: string, type: string) => {
+    const blob = new Blob([contents], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+export const downloadBackup = (backup: BackupFile) => {
+    const date = new Date(backup.exportedAt).toISOString().slice(0, 10);
+    downloadFile(`math-village-${backup.profile.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${date}.json`, JSON.stringify(backup, null, 2), 'application/json');
+};
+
+// Runs the file through the same migrations and validation as a local save.
+// Throws with a message fit for showing to a parent when the file is not a backup at all.
+export const parseBackup = (text: string): ParsedBackup => {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(text);
+    } catch (e) {
+        throw new Error(t('backup.notBackup'));
+    }
+    if (!parsed || parsed.app !== BACKUP_APP_ID || typeof parsed.version !== 'number') {
+        throw new Error(t('backup.notBackup'));
+    }
+    if (parsed.version > SAVE_VERSION) {
+        throw new Error(t('backup.tooNew'));
+    }
+    const state = loadState({ version: parsed.version, data: parsed.state });
+    const settings = loadSettings({ version: parsed.version, data: parsed.settings });
+    return {
+        profile: {
+            name: typeof parsed.profile?.name === 'string' ? parsed.profile.name : 'Player',
+            icon: typeof parsed.profile?.icon === 'string' ? parsed.profile.icon : '🙂'
+        },
+        exportedAt: typeof parsed.exportedAt === 'number' ? parsed.exportedAt : 0,
+        state: state.value,
+        settings: settings.value,
+        problems: [...state.problems, ...settings.problems]
+    };
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { Assignment, GameType, MasteryRating, TestRecord } from '../types';
+import { INITIAL_STATE } from '../constants';
+import { createAssignment, getAssignmentStatus, getOpenAssignments, parseRosterNames, testResultsCsv } from './classroom';
+import { dayKey } from './stats';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2025, 0, 6, 9).getTime();
+
+const taken = (gameType: GameType, score: number, rating: MasteryRating, at: number): TestRecord =>
+    ({ gameType, score, rating, at, time: 60, correct: score / 5, questions: 20, secondsPerQuestion: 3 });
+
+const student = (name: string, testResults: TestRecord[]) =>
+    ({ profile: { id: name, name, icon: '🦊' }, state: { ...INITIAL_STATE, testResults } });
+
+describe('getAssignmentStatus', () => {
+    const doublesToIron: Assignment = createAssignment(GameType.DOUBLES, 'Iron', NOW);
+
+    it('runs for a week unless given a last day', () => {
+        expect(doublesToIron.due).toBe(dayKey(NOW + 7 * DAY));
+        expect(getOpenAssignments([doublesToIron], NOW + 7 * DAY)).toHaveLength(1);
+        expect(getOpenAssignments([doublesToIron], NOW + 8 * DAY)).toHaveLength(0);
+    });
+
+    it('only counts tests of that game taken since it was set', () => {
+        const results = [
+            taken(GameType.DOUBLES, 95, 'Diamond', NOW - DAY),
+            taken(GameType.MAKE_TEN, 80, 'Iron', NOW + DAY),
+            taken(GameType.DOUBLES, 60, 'Wood', NOW + DAY)
+        ];
+        expect(getAssignmentStatus(doublesToIron, results)).toEqual({ tries: 1, best: 60, doneAt: null, late: false });
+    });
+
+    it('is done by the first test reaching the rating or better, and late after the last day', () => {
+        const onTime = [taken(GameType.DOUBLES, 60, 'Wood', NOW + DAY), taken(GameType.DOUBLES, 95, 'Diamond', NOW + 2 * DAY), taken(GameType.DOUBLES, 80, 'Iron', NOW + 3 * DAY)];
+        expect(getAssignmentStatus(doublesToIron, onTime)).toEqual({ tries: 3, best: 95, doneAt: NOW + 2 * DAY, late: false });
+        const late = [taken(GameType.DOUBLES, 80, 'Iron', NOW + 9 * DAY)];
+        expect(getAssignmentStatus(doublesToIron, late)).toMatchObject({ doneAt: NOW + 9 * DAY, late: true });
+    });
+});
+
+describe('parseRosterNames', () => {
+    it('splits names by line or comma and skips anyone already on the roster', () => {
+        const roster = [{ id: 'p1', name: 'Idris', icon: '🦊' }];
+        expect(parseRosterNames('Amal\nidris, Zoe ,\n\nAmal, Maximilian-Alexander', roster)).toEqual(['Amal', 'Zoe', 'Maximilian-A']);
+    });
+});
+
+describe('testResultsCsv', () => {
+    it('writes one row per test and keeps names from being read as formulas', () => {
+        const csv = testResultsCsv([student('=Sam, "Jr"', [taken(GameType.DOUBLES, 80, 'Iron', NOW)]), student('Amal', [])]);
+        expect(csv.split('\r\n')).toEqual([
+            'student,date,game,score,rating,correct,questions,seconds,seconds_per_question',
+            `"'=Sam, ""Jr""",${new Date(NOW).toISOString()},DOUBLES,80,Iron,16,20,60,3`
+        ]);
+    });
+});
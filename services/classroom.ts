@@ -0,0 +1,134 @@
+import { AppState, Assignment, GameType, MasteryRating, Profile, TestRecord } from '../types';
+import { ASSIGNMENT_DAYS } from '../constants';
+import { BACKUP_APP_ID } from './backup';
+import { loadProfileState } from './storage';
+import { dayKey, getFactStats, FactStats } from './stats';
+import { t } from './i18n';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RATING_ORDER: MasteryRating[] = ['Wood', 'Iron', 'Diamond'];
+
+// Same limit as the name box on the player picker
+const MAX_NAME_LENGTH = 12;
+
+export interface Student {
+    profile: Profile;
+    state: AppState;
+}
+
+export interface AssignmentStatus {
+    // Tests of the assigned game taken since the assignment was set
+    tries: number;
+    best: number | null;
+    // When the rating was first reached
+    doneAt: number | null;
+    // Reached, but after the due day
+    late: boolean;
+}
+
+export interface ClassroomReport {
+    app: string;
+    exportedAt: number;
+    assignments: Assignment[];
+    students: {
+        name: string;
+        icon: string;
+        testResults: TestRecord[];
+        facts: FactStats[];
+        assignments: (AssignmentStatus & { id: string })[];
+    }[];
+}
+
+// Reads every profile's saved progress; the active player's is written on each change, so it is current too
+export const loadStudents = (profiles: Profile[]): Student[] =>
+    profiles.map(profile => ({ profile, state: loadProfileState(profile.id).value }));
+
+export const createAssignment = (gameType: GameType, rating: MasteryRating, now: number, due: string = dayKey(now + ASSIGNMENT_DAYS * DAY_MS)): Assignment => ({
+    id: `a-${now.toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    gameType,
+    rating,
+    setAt: now,
+    due
+});
+
+export const reachesRating = (rating: MasteryRating, target: MasteryRating) =>
+    RATING_ORDER.indexOf(rating) >= RATING_ORDER.indexOf(target);
+
+export const getAssignmentStatus = (assignment: Assignment, results: TestRecord[]): AssignmentStatus => {
+    const tries = results.filter(r => r.gameType === assignment.gameType && r.at >= assignment.setAt);
+    const done = tries.find(r => reachesRating(r.rating, assignment.rating));
+    return {
+        tries: tries.length,
+        best: tries.length ? Math.max(...tries.map(r => r.score)) : null,
+        doneAt: done?.at ?? null,
+        late: !!done && dayKey(done.at) > assignment.due
+    };
+};
+
+// Due days are stored as local dayKeys, so they are read back as local midnight
+export const formatDueDay = (assignment: Assignment) => new Date(`${assignment.due}T00:00:00`).toLocaleDateString();
+
+// Assignments still running today, for showing to the child
+export const getOpenAssignments = (assignments: Assignment[], now: number = Date.now()) =>
+    assignments.filter(a => a.due >= dayKey(now));
+
+// Names typed one per line or separated by commas, skipping any already on the roster
+export const parseRosterNames = (text: string, roster: Profile[]): string[] => {
+    const taken = new Set(roster.map(p => p.name.toLowerCase()));
+    const names: string[] = [];
+    text.split(/[,،\n]+/).map(n => n.trim().slice(0, MAX_NAME_LENGTH)).filter(Boolean).forEach(name => {
+        if (taken.has(name.toLowerCase())) return;
+        taken.add(name.toLowerCase());
+        names.push(name);
+    });
+    return names;
+};
+
+const csvCell = (value: string | number) => {
+    if (typeof value === 'number') return String(value);
+    // Spreadsheets run a cell starting with = + - or @ as a formula, and names are typed by anyone
+    const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: (string | number)[][]) => rows.map(row => row.map(csvCell).join(',')).join('\r\n');
+
+export const testResultsCsv = (students: Student[]) => toCsv([
+    ['student', 'date', 'game', 'score', 'rating', 'correct', 'questions', 'seconds', 'seconds_per_question'],
+    ...students.flatMap(({ profile, state }) => state.testResults.map(r =>
+        [profile.name, new Date(r.at).toISOString(), r.gameType, r.score, r.rating, r.correct, r.questions, r.time, r.secondsPerQuestion]))
+]);
+
+export const factAccuracyCsv = (students: Student[]) => toCsv([
+    ['student', 'game', 'fact', 'attempts', 'correct', 'accuracy', 'average_seconds'],
+    ...students.flatMap(({ profile, state }) => getFactStats(state.attempts)
+        .sort((x, y) => x.gameType.localeCompare(y.gameType) || x.key.localeCompare(y.key, undefined, { numeric: true }))
+        .map(f => [profile.name, f.gameType, f.key, f.attempts, f.correct, f.accuracy, Math.round(f.avgMs / 100) / 10]))
+]);
+
+export const buildClassroomReport = (students: Student[], assignments: Assignment[], now: number): ClassroomReport => ({
+    app: BACKUP_APP_ID,
+    exportedAt: now,
+    assignments,
+    students: students.map(({ profile, state }) => ({
+        name: profile.name,
+        icon: profile.icon,
+        testResults: state.testResults,
+        facts: getFactStats(state.attempts),
+        assignments: assignments.map(a => ({ id: a.id, ...getAssignmentStatus(a, state.testResults) }))
+    }))
+});
+
+export const isSyncUrl = (url: string) => /^https?:\/\/\S+$/.test(url.trim());
+
+// Posts the report as JSON to the teacher's own server.
+// Throws with a message fit for showing to the teacher when it doesn't go through.
+export const syncClassroomReport = async (url: string, report: ClassroomReport) => {
+    let response: Response;
+    try {
+        response = await fetch(url.trim(), { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(report) });
+    } catch (e) {
+        throw new Error(t('classroom.syncUnreachable'));
+    }
+    if (!response.ok) throw new Error(t('classroom.syncFailed', { status: response.status }));
+};
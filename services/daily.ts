@@ -0,0 +1,82 @@
+import { AppState, Attempt, DailyGoal } from '../types';
+import { MAX_HEARTS, HEART_REFILL_MINUTES, STREAK_BONUS_PER_DAY, STREAK_BONUS_MAX_DAYS, MAX_PRACTICE_DAYS } from '../constants';
+import { dayKey } from './stats';
+
+const REFILL_MS = HEART_REFILL_MINUTES * 60 * 1000;
+
+export interface GoalProgress {
+    value: number;
+    target: number;
+    met: boolean;
+}
+
+// Minutes count time spent answering, so a game left open doesn't fill the goal
+export const getGoalProgress = (attempts: Attempt[], goal: DailyGoal, now: number = Date.now()): GoalProgress => {
+    const today = dayKey(now);
+    const todays = attempts.filter(a => dayKey(a.at) === today);
+    const value = goal.unit === 'answers'
+        ? todays.filter(a => a.correct).length
+        : Math.floor(todays.reduce((sum, a) => sum + a.responseMs, 0) / 60000);
+    return { value, target: goal.target, met: value >= goal.target };
+};
+
+const previousDay = (now: number) => {
+    const d = new Date(now);
+    return dayKey(new Date(d.getFullYear(), d.getMonth(), d.getDate() - 1).getTime());
+};
+
+export const streakBonus = (streak: number) => Math.min(streak, STREAK_BONUS_MAX_DAYS) * STREAK_BONUS_PER_DAY;
+
+// The streak shown to the child: a day missed ends it, unless penalties are off
+export const getCurrentStreak = (state: AppState, noPenalties: boolean, now: number = Date.now()) => {
+    const last = state.practiceDays[state.practiceDays.length - 1];
+    return noPenalties || last === dayKey(now) || last === previousDay(now) ? state.streak : 0;
+};
+
+// Called after each answer: the first time today's goal is met, the day joins the
+// calendar, the streak moves on and the streak bonus is paid
+export const markGoalMet = (state: AppState, goal: DailyGoal, noPenalties: boolean, now: number = Date.now()): AppState => {
+    const today = dayKey(now);
+    if (state.practiceDays.includes(today) || !getGoalProgress(state.attempts, goal, now).met) return state;
+    const continues = state.practiceDays.length > 0 && (noPenalties || state.practiceDays.includes(previousDay(now)));
+    const streak = continues ? state.streak + 1 : 1;
+    return {
+        ...state,
+        streak,
+        practiceDays: [...state.practiceDays, today].slice(-MAX_PRACTICE_DAYS),
+        emeralds: state.emeralds + streakBonus(streak)
+    };
+};
+
+// Adds any hearts earned back since the refill clock started; the clock stops while hearts are full
+export const refillHearts = (state: AppState, now: number = Date.now()): AppState => {
+    if (state.hearts >= MAX_HEARTS) return state;
+    const earned = Math.floor((now - state.heartsUpdatedAt) / REFILL_MS);
+    if (earned <= 0) return state;
+    const hearts = Math.min(MAX_HEARTS, state.hearts + earned);
+    return { ...state, hearts, heartsUpdatedAt: state.heartsUpdatedAt + earned * REFILL_MS };
+};
+
+export const loseHeart = (state: AppState, now: number = Date.now()): AppState => {
+    const current = refillHearts(state, now);
+    if (current.hearts <= 0) return current;
+    return {
+        ...current,
+        hearts: current.hearts - 1,
+        heartsUpdatedAt: current.hearts >= MAX_HEARTS ? now : current.heartsUpdatedAt
+    };
+};
+
+// Whole minutes until the next heart comes back, or 0 when they are all full
+export const minutesToNextHeart = (state: AppState, now: number = Date.now()) =>
+    state.hearts >= MAX_HEARTS ? 0 : Math.max(1, Math.ceil((state.heartsUpdatedAt + REFILL_MS - now) / 60000));
+
+// The last few weeks as calendar cells, oldest first
+export const getStreakCalendar = (state: AppState, days: number, now: number = Date.now()) => {
+    const d = new Date(now);
+    return Array.from({ length: days }, (_, i) => {
+        const date = new Date(d.getFullYear(), d.getMonth(), d.getDate() - (days - 1 - i));
+        const day = dayKey(date.getTime());
+        return { day, date: date.getDate(), practised: state.practiceDays.includes(day), isToday: i === days - 1 };
+    });
+};
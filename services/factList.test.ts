@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { GameType } from '../types';
+import { INITIAL_SETTINGS } from '../constants';
+import { candidateFacts, usesCustomFacts } from './adaptive';
+import { factsWith, formatFactList, parseFactList } from './factList';
+
+describe('parseFactList', () => {
+    it('reads facts split by commas, semicolons and lines, dropping repeats', () => {
+        expect(parseFactList('9 + 1, 9+2;\n12 − 9، 12 - 9')).toEqual({
+            facts: [{ a: 9, b: 1, op: '+' }, { a: 9, b: 2, op: '+' }, { a: 12, b: 9, op: '-' }],
+            invalid: []
+        });
+    });
+
+    it('hands back what it cannot read, including take-aways below zero', () => {
+        expect(parseFactList('9 + 1, nine plus two, 3 - 5, 4 x 2')).toEqual({
+            facts: [{ a: 9, b: 1, op: '+' }],
+            invalid: ['nine plus two', '3 - 5', '4 x 2']
+        });
+    });
+
+    it('reads back what it writes', () => {
+        const facts = [...factsWith(9, '+'), ...factsWith(9, '-')];
+        expect(parseFactList(formatFactList(facts))).toEqual({ facts, invalid: [] });
+    });
+});
+
+describe('candidateFacts with a custom list', () => {
+    const plusNine = { ...INITIAL_SETTINGS, range: 20 as const, customFacts: { enabled: true, facts: factsWith(9, '+') } };
+
+    it('asks only the listed facts a game can ask', () => {
+        const facts = candidateFacts(GameType.NUMBER_HOP, plusNine);
+        expect(facts.length).toBeGreaterThan(0);
+        facts.forEach(f => expect(f).toMatchObject({ b: 9, op: '+' }));
+        expect(usesCustomFacts(GameType.NUMBER_HOP, plusNine)).toBe(true);
+    });
+
+    it('leaves games alone when the list is off or has nothing they can ask', () => {
+        const off = { ...plusNine, customFacts: { enabled: false, facts: [] } };
+        expect(candidateFacts(GameType.NUMBER_HOP, { ...plusNine, customFacts: { ...plusNine.customFacts, enabled: false } }))
+            .toEqual(candidateFacts(GameType.NUMBER_HOP, off));
+        const takeAways = { ...plusNine, customFacts: { enabled: true, facts: factsWith(9, '-') } };
+        expect(candidateFacts(GameType.DOUBLES, takeAways)).toEqual(candidateFacts(GameType.DOUBLES, off));
+        expect(usesCustomFacts(GameType.DOUBLES, takeAways)).toBe(false);
+    });
+});
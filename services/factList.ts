@@ -0,0 +1,30 @@
+import { Fact } from '../types';
+import { factKey } from './stats';
+
+const FACT_PATTERN = /^(\d{1,3})\s*([+\-−])\s*(\d{1,3})$/;
+
+// Reads a parent's list such as "9 + 1, 9 + 2; 12 − 9", one fact per comma (Latin or Arabic), semicolon or line.
+// Repeats are dropped, and anything unreadable (or a take-away below zero) comes back in `invalid`.
+export const parseFactList = (text: string): { facts: Fact[], invalid: string[] } => {
+    const facts: Fact[] = [];
+    const invalid: string[] = [];
+    const seen = new Set<string>();
+    text.split(/[,،;\n]+/).map(part => part.trim()).filter(Boolean).forEach(part => {
+        const match = part.match(FACT_PATTERN);
+        const fact: Fact | null = match ? { a: Number(match[1]), b: Number(match[3]), op: match[2] === '+' ? '+' : '-' } : null;
+        if (!fact || (fact.op === '-' && fact.b > fact.a)) {
+            invalid.push(part);
+            return;
+        }
+        if (seen.has(factKey(fact))) return;
+        seen.add(factKey(fact));
+        facts.push(fact);
+    });
+    return { facts, invalid };
+};
+
+export const formatFactList = (facts: Fact[]) => facts.map(f => `${f.a} ${f.op === '-' ? '−' : '+'} ${f.b}`).join(', ');
+
+// The "+n" facts, 1 + n up to 10 + n, or the "−n" facts that undo them
+export const factsWith = (n: number, op: '+' | '-'): Fact[] =>
+    [...Array(10)].map((_, i) => op === '+' ? { a: i + 1, b: n, op } : { a: i + 1 + n, b: n, op });
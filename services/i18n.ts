@@ -0,0 +1,112 @@
+import { GameType, Language, MasteryRating, Settings, ShopItem } from '../types';
+import { LANGUAGES } from '../constants';
+import { en, Messages } from '../locales/en';
+import { fr } from '../locales/fr';
+import { ar } from '../locales/ar';
+import { Achievement } from './achievements';
+
+type TextKey = { [K in keyof Messages]: Messages[K] extends string ? K : never }[keyof Messages];
+type ListKey = { [K in keyof Messages]: Messages[K] extends string[] ? K : never }[keyof Messages];
+type Params = Record<string, string | number>;
+
+const CATALOGS: Record<Language, Messages> = { en, fr, ar };
+
+// Like speech and audio, the language is module state set from the active profile's
+// settings, so any component or service can translate without threading it through props
+let current: Language = 'en';
+
+export const setLanguage = (language: Language) => {
+    current = language;
+    if (typeof document !== 'undefined') {
+        document.documentElement.lang = language;
+        document.documentElement.dir = getLanguageInfo(language).dir;
+    }
+};
+
+export const getLanguage = () => current;
+
+export const getLanguageInfo = (language: Language = current) => LANGUAGES.find(l => l.code === language) || LANGUAGES[0];
+
+const fill = (template: string, params?: Params) =>
+    params ? template.replace(/\{(\w+)\}/g, (match, key) => key in params ? String(params[key]) : match) : template;
+
+export const t = (key: TextKey, params?: Params) => fill(CATALOGS[current][key] ?? en[key], params);
+
+export const tList = (key: ListKey, params?: Params) => (CATALOGS[current][key] ?? en[key]).map(line => fill(line, params));
+
+export const gameName = (type: GameType) => t(`game.${type}`);
+
+// The bonds test is named after the target it asks for
+export const testName = (type: GameType, settings: Settings) => t(`test.${type}`, { target: settings.bondTarget });
+
+export const ratingName = (rating: MasteryRating) => t(`rating.${rating}`);
+
+export const achievementName = (achievement: Achievement) => t(`achievement.${achievement.id}`);
+
+export const achievementDescription = (achievement: Achievement) =>
+    t(`achievement.${achievement.id}.desc`, achievement.game ? { game: gameName(achievement.game) } : undefined);
+
+// Items without a catalog entry keep the name they were defined with
+export const itemName = (item: ShopItem) => {
+    const key = `item.${item.id}`;
+    return key in en ? t(key as TextKey) : item.name;
+};
+
+// Number words for 0-100, so a spoken line never depends on how a voice reads digits
+
+const EN_UNITS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+    'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const EN_TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+const spellEnglish = (n: number): string => {
+    if (n < 20) return EN_UNITS[n];
+    if (n === 100) return 'one hundred';
+    const unit = n % 10;
+    return EN_TENS[Math.floor(n / 10)] + (unit ? `-${EN_UNITS[unit]}` : '');
+};
+
+const FR_UNITS = ['zéro', 'un', 'deux', 'trois', 'quatre', 'cinq', 'six', 'sept', 'huit', 'neuf', 'dix',
+    'onze', 'douze', 'treize', 'quatorze', 'quinze', 'seize', 'dix-sept', 'dix-huit', 'dix-neuf'];
+const FR_TENS = ['', '', 'vingt', 'trente', 'quarante', 'cinquante', 'soixante'];
+
+// 70-79 and 90-99 count on from soixante and quatre-vingt: soixante-douze, quatre-vingt-onze
+const spellFrench = (n: number): string => {
+    if (n < 20) return FR_UNITS[n];
+    if (n === 100) return 'cent';
+    if (n === 80) return 'quatre-vingts';
+    const tens = Math.floor(n / 10);
+    if (tens === 7 || tens === 9) {
+        const base = tens === 7 ? 'soixante' : 'quatre-vingt';
+        const rest = n - (tens - 1) * 10;
+        return base + (n === 71 ? ' et ' : '-') + FR_UNITS[rest];
+    }
+    const unit = n % 10;
+    if (tens === 8) return `quatre-vingt-${FR_UNITS[unit]}`;
+    if (unit === 0) return FR_TENS[tens];
+    return FR_TENS[tens] + (unit === 1 ? ' et un' : `-${FR_UNITS[unit]}`);
+};
+
+const AR_UNITS = ['صفر', 'واحد', 'اثنان', 'ثلاثة', 'أربعة', 'خمسة', 'ستة', 'سبعة', 'ثمانية', 'تسعة', 'عشرة',
+    'أحد عشر', 'اثنا عشر', 'ثلاثة عشر', 'أربعة عشر', 'خمسة عشر', 'ستة عشر', 'سبعة عشر', 'ثمانية عشر', 'تسعة عشر'];
+const AR_TENS = ['', '', 'عشرون', 'ثلاثون', 'أربعون', 'خمسون', 'ستون', 'سبعون', 'ثمانون', 'تسعون'];
+
+// Arabic says the unit first: واحد وعشرون is "one and twenty"
+const spellArabic = (n: number): string => {
+    if (n < 20) return AR_UNITS[n];
+    if (n === 100) return 'مئة';
+    const unit = n % 10;
+    const tens = AR_TENS[Math.floor(n / 10)];
+    return unit ? `${AR_UNITS[unit]} و${tens}` : tens;
+};
+
+const SPELLERS: Record<Language, (n: number) => string> = { en: spellEnglish, fr: spellFrench, ar: spellArabic };
+
+export const spellNumber = (n: number, language: Language = current) =>
+    Number.isInteger(n) && n >= 0 && n <= 100 ? SPELLERS[language](n) : String(n);
+
+// For lines that are read aloud: number params are spelled out in the current language
+export const tSpoken = (key: TextKey, params: Params = {}) => {
+    const spelled: Params = {};
+    Object.entries(params).forEach(([k, v]) => { spelled[k] = typeof v === 'number' ? spellNumber(v) : v; });
+    return t(key, spelled);
+};
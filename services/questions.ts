@@ -0,0 +1,11 @@
+import { Attempt, Fact, GameType, Settings } from '../types';
+import { getGame } from '../games';
+import { pickFact } from './adaptive';
+import { Random } from './random';
+
+// The next question for a game: the adaptive picker chooses the fact and the game's module builds the question.
+// Nothing here reads the clock or Math.random, so the same seed and history always give the same question.
+export const generateQuestion = (type: GameType, settings: Settings, attempts: Attempt[], previous: Fact | null, random: Random, now: number) => {
+    const fact = pickFact(type, settings, attempts, previous, now, random);
+    return { fact, question: getGame(type).createQuestion(fact, settings, random) };
+};
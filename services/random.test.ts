@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom, randomInt, shuffle } from './random';
+
+describe('createRandom', () => {
+    it('gives the same sequence for the same seed', () => {
+        const a = createRandom(42);
+        const b = createRandom(42);
+        const c = createRandom(43);
+        const first = Array.from({ length: 20 }, a);
+        expect(Array.from({ length: 20 }, b)).toEqual(first);
+        expect(Array.from({ length: 20 }, c)).not.toEqual(first);
+    });
+
+    it('stays within [0, 1)', () => {
+        const random = createRandom(7);
+        for (let i = 0; i < 10000; i++) {
+            const n = random();
+            expect(n).toBeGreaterThanOrEqual(0);
+            expect(n).toBeLessThan(1);
+        }
+    });
+});
+
+describe('randomInt', () => {
+    it('covers 0 to max inclusive and nothing else', () => {
+        const random = createRandom(1);
+        const seen = new Set<number>();
+        for (let i = 0; i < 2000; i++) seen.add(randomInt(5, random));
+        expect([...seen].sort()).toEqual([0, 1, 2, 3, 4, 5]);
+    });
+});
+
+describe('shuffle', () => {
+    it('returns a reordering of the same items without touching the input', () => {
+        for (let seed = 0; seed < 200; seed++) {
+            const items = [1, 2, 3, 4, 5, 6];
+            const shuffled = shuffle(items, createRandom(seed));
+            expect(items).toEqual([1, 2, 3, 4, 5, 6]);
+            expect([...shuffled].sort()).toEqual(items);
+        }
+    });
+
+    it('puts each item first about equally often', () => {
+        const random = createRandom(99);
+        const firsts = [0, 0, 0];
+        for (let i = 0; i < 3000; i++) firsts[shuffle([0, 1, 2], random)[0]]++;
+        firsts.forEach(count => expect(count).toBeGreaterThan(850));
+    });
+});
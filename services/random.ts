@@ -0,0 +1,27 @@
+// Question generation takes its randomness as a parameter, so a seed always gives the same questions
+export type Random = () => number;
+
+// mulberry32: tiny and plenty random enough for picking sums
+export const createRandom = (seed: number): Random => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// A whole number from 0 to max, inclusive
+export const randomInt = (max: number, random: Random) => Math.floor(random() * (max + 1));
+
+// Fisher–Yates; sorting with a random comparator favours some orders over others
+export const shuffle = <T>(items: T[], random: Random): T[] => {
+    const list = [...items];
+    for (let i = list.length - 1; i > 0; i--) {
+        const j = randomInt(i, random);
+        [list[i], list[j]] = [list[j], list[i]];
+    }
+    return list;
+};
@@ -0,0 +1,103 @@
+import { AppState, Attempt, GameType, PlayMode, RotationSettings, Settings, TestResult } from '../types';
+import { INITIAL_STATE } from '../constants';
+import { playableGames } from '../games';
+import { dayKey } from './stats';
+
+// A win is this many right answers, so a 20-answer streak counts for more than a short round
+export const ANSWERS_PER_WIN = 10;
+
+// The daily plan suggests this many games, each ticked off after enough right answers today
+export const PLAN_SIZE = 3;
+export const PLAN_ANSWERS = 10;
+
+// Recent answers per game that count towards its mastery in the plan
+const PLAN_RECENT_ANSWERS = 30;
+
+export interface PlanItem {
+    type: GameType;
+    // 0 for fully mastered, 1 for never played
+    gap: number;
+    correctToday: number;
+    done: boolean;
+}
+
+export const countsTowardRotation = (rotation: RotationSettings, mode: PlayMode) =>
+    rotation.enabled && rotation.modes.includes(mode);
+
+export const isResting = (state: AppState, rotation: RotationSettings, type: GameType, mode: PlayMode) =>
+    countsTowardRotation(rotation, mode) && !!state.isLocked[type];
+
+// Play still needed on other games before each resting game wakes up, rounded up
+export const getRestingGames = (state: AppState, rotation: RotationSettings): Record<string, number> => {
+    const resting: Record<string, number> = {};
+    if (!rotation.enabled) return resting;
+    Object.keys(state.isLocked).forEach(type => {
+        if (state.isLocked[type]) resting[type] = Math.max(1, Math.ceil(rotation.cooldown - (state.otherSuccessesSinceLock[type] || 0)));
+    });
+    return resting;
+};
+
+const playAmount = (result: TestResult, unit: RotationSettings['unit']) =>
+    unit === 'minutes' ? result.time / 60 : result.correct / ANSWERS_PER_WIN;
+
+// Adds a finished session to the counters: the game played rests once it reaches the
+// threshold, and every resting game wakes up after enough play on the others
+export const applyRotation = (state: AppState, result: TestResult, mode: PlayMode, rotation: RotationSettings): AppState => {
+    if (!countsTowardRotation(rotation, mode)) return state;
+    const amount = playAmount(result, rotation.unit);
+    const type = result.gameType;
+
+    const successCounts = { ...state.successCounts, [type]: (state.successCounts[type] || 0) + amount };
+    const isLocked = { ...state.isLocked };
+    if (successCounts[type] >= rotation.threshold) isLocked[type] = true;
+
+    const otherSuccessesSinceLock = { ...state.otherSuccessesSinceLock };
+    Object.keys(isLocked).forEach(gameKey => {
+        if (!isLocked[gameKey] || gameKey === type) return;
+        otherSuccessesSinceLock[gameKey] = (otherSuccessesSinceLock[gameKey] || 0) + amount;
+        if (otherSuccessesSinceLock[gameKey] >= rotation.cooldown) {
+            isLocked[gameKey] = false;
+            successCounts[gameKey] = 0;
+            otherSuccessesSinceLock[gameKey] = 0;
+        }
+    });
+
+    return { ...state, successCounts, isLocked, otherSuccessesSinceLock };
+};
+
+// Counts kept under the old rules may be in the other unit, so a rule change wakes every game
+export const resetRotation = (state: AppState): AppState => ({
+    ...state,
+    successCounts: { ...INITIAL_STATE.successCounts },
+    isLocked: { ...INITIAL_STATE.isLocked },
+    otherSuccessesSinceLock: { ...INITIAL_STATE.otherSuccessesSinceLock }
+});
+
+// The gap averages recent accuracy with the best test score, so a game is only
+// mastered once it is both practised and tested
+const masteryGap = (attempts: Attempt[], testScore: number) => {
+    const accuracy = attempts.length ? attempts.filter(a => a.correct).length / attempts.length : 0;
+    return 1 - (accuracy + testScore / 100) / 2;
+};
+
+// Worked out from answers before today, so the plan stays the same all day while it gets done.
+// Ties rotate with the date so evenly matched games take turns at the top. Only games with
+// something to ask at the current settings are suggested.
+export const getDailyPlan = (state: AppState, settings: Settings, now: number = Date.now()): PlanItem[] => {
+    const today = dayKey(now);
+    const dayNumber = Math.floor(now / (24 * 60 * 60 * 1000));
+    const types = playableGames(settings).map(game => game.type);
+    const items = types.map((type, index) => {
+        const forGame = state.attempts.filter(a => a.gameType === type);
+        const before = forGame.filter(a => dayKey(a.at) !== today).slice(-PLAN_RECENT_ANSWERS);
+        const correctToday = forGame.filter(a => a.correct && dayKey(a.at) === today).length;
+        return {
+            item: { type, gap: masteryGap(before, state.testScores[type] || 0), correctToday, done: correctToday >= PLAN_ANSWERS },
+            turn: (index + dayNumber) % types.length
+        };
+    });
+    return items
+        .sort((x, y) => y.item.gap - x.item.gap || x.turn - y.turn)
+        .slice(0, PLAN_SIZE)
+        .map(({ item }) => item);
+};
@@ -0,0 +1,240 @@
+import { AppState, Settings, SpeechSettings, ChannelSettings, AudioChannel, RotationSettings, DailyGoal, CustomFacts, Attempt, Fact, GameType, PlayMode, TestRecord, Assignment, Classroom, SyncSettings } from '../types';
+import { INITIAL_STATE, INITIAL_SETTINGS, INITIAL_CLASSROOM, SHOP_ITEMS, VILLAGE_PLOTS, MAX_HEARTS, RANGES, BOND_TARGETS } from '../constants';
+
+// Bump this and add a step to the migration tables whenever a saved shape changes.
+// Version 1 is every save written before versioning, stored as the bare object.
+export const SAVE_VERSION = 2;
+
+type Migration = (data: any) => any;
+
+// Keyed by the version being migrated *from*
+const STATE_MIGRATIONS: Record<number, Migration> = {
+    // Tiles bought before the village existed were never counted as blocks, and
+    // could be sitting in the character slot
+    1: data => {
+        const unlocked: string[] = Array.isArray(data.unlockedItems) ? data.unlockedItems : [];
+        const tiles = SHOP_ITEMS.filter(i => i.kind === 'tile' && unlocked.includes(i.id)).map(i => i.id);
+        const inventory = { ...(data.inventory || {}) };
+        tiles.forEach(id => { if (!inventory[id]) inventory[id] = 1; });
+        const equippedIsTile = tiles.includes(data.equippedItem);
+        return {
+            ...data,
+            inventory,
+            equippedItem: equippedIsTile ? INITIAL_STATE.equippedItem : data.equippedItem,
+            equippedTile: equippedIsTile ? data.equippedItem : (data.equippedTile ?? null)
+        };
+    }
+};
+
+const SETTINGS_MIGRATIONS: Record<number, Migration> = {
+    1: data => data
+};
+
+const CLASSROOM_MIGRATIONS: Record<number, Migration> = {
+    1: data => data
+};
+
+export interface SaveEnvelope<T> {
+    version: number;
+    data: T;
+}
+
+export interface Validated<T> {
+    value: T;
+    // Fields that were present but unusable and had to be reset
+    problems: string[];
+}
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isBoolean = (v: unknown): v is boolean => typeof v === 'boolean';
+const isString = (v: unknown): v is string => typeof v === 'string';
+const oneOf = <T>(options: readonly T[]) => (v: unknown): v is T => options.includes(v as T);
+
+export const wrapSave = <T>(data: T): SaveEnvelope<T> => ({ version: SAVE_VERSION, data });
+
+export const unwrapSave = (parsed: unknown): SaveEnvelope<unknown> =>
+    isObject(parsed) && isNumber(parsed.version) && 'data' in parsed
+        ? { version: parsed.version, data: parsed.data }
+        : { version: 1, data: parsed };
+
+const migrate = (envelope: SaveEnvelope<unknown>, steps: Record<number, Migration>) => {
+    let data = envelope.data;
+    for (let v = envelope.version; v < SAVE_VERSION; v++) {
+        if (steps[v] && isObject(data)) data = steps[v](data);
+    }
+    return data;
+};
+
+// Copies every field the validator accepts and falls back to the default for the rest,
+// so a save from an older build picks up new fields (and new GameType keys) automatically
+const pick = <T extends object>(raw: Record<string, any>, defaults: T, checks: { [K in keyof T]: (v: unknown) => boolean }, problems: string[]): T => {
+    const result = { ...defaults };
+    (Object.keys(defaults) as (keyof T)[]).forEach(key => {
+        if (!(key in raw)) return;
+        if (checks[key](raw[key as string])) result[key] = raw[key as string];
+        else problems.push(String(key));
+    });
+    return result;
+};
+
+const recordOf = (check: (v: unknown) => boolean) => (v: unknown): boolean =>
+    isObject(v) && Object.values(v).every(check);
+
+const mergeRecord = <T>(defaults: Record<string, T>, value: Record<string, T>) => ({ ...defaults, ...value });
+
+const isFact = (v: unknown): v is Fact =>
+    isObject(v) && [v.a, v.b].every(isNumber) && oneOf(['+', '-'] as const)(v.op);
+
+const isAttempt = (v: unknown): v is Attempt =>
+    isObject(v)
+    && oneOf(Object.values(GameType))(v.gameType)
+    && [v.a, v.b, v.answer, v.given, v.responseMs, v.at].every(isNumber)
+    && oneOf(['+', '-'] as const)(v.op)
+    && isBoolean(v.correct);
+
+const isRating = oneOf(['Diamond', 'Iron', 'Wood'] as const);
+
+const isTestRecord = (v: unknown): v is TestRecord =>
+    isObject(v)
+    && oneOf(Object.values(GameType))(v.gameType)
+    && isRating(v.rating)
+    && [v.score, v.time, v.correct, v.questions, v.secondsPerQuestion, v.at].every(isNumber);
+
+const isAssignment = (v: unknown): v is Assignment =>
+    isObject(v)
+    && isString(v.id)
+    && oneOf(Object.values(GameType))(v.gameType)
+    && isRating(v.rating)
+    && isNumber(v.setAt)
+    && isString(v.due) && /^\d{4}-\d{2}-\d{2}$/.test(v.due);
+
+export const validateState = (raw: unknown): Validated<AppState> => {
+    const problems: string[] = [];
+    if (!isObject(raw)) return { value: INITIAL_STATE, problems: ['everything'] };
+    const state = pick<AppState>(raw, INITIAL_STATE, {
+        emeralds: v => isNumber(v) && v >= 0,
+        xp: v => isNumber(v) && v >= 0,
+        level: v => isNumber(v) && v >= 1,
+        testScores: recordOf(isNumber),
+        unlockedItems: v => Array.isArray(v) && v.every(isString),
+        equippedItem: isString,
+        equippedTile: v => v === null || isString(v),
+        inventory: recordOf(isNumber),
+        village: v => Array.isArray(v) && v.every(id => id === null || isString(id)),
+        hearts: v => isNumber(v) && v >= 0 && v <= MAX_HEARTS,
+        heartsUpdatedAt: isNumber,
+        successCounts: recordOf(isNumber),
+        isLocked: recordOf(isBoolean),
+        otherSuccessesSinceLock: recordOf(isNumber),
+        currentPlayMode: oneOf(Object.values(PlayMode)),
+        streak: v => isNumber(v) && v >= 0,
+        practiceDays: v => Array.isArray(v) && v.every(isString),
+        achievements: recordOf(isNumber),
+        attempts: Array.isArray,
+        testResults: Array.isArray
+    }, problems);
+
+    const attempts = state.attempts.filter(isAttempt);
+    if (attempts.length < state.attempts.length) problems.push('attempts');
+    const testResults = state.testResults.filter(isTestRecord);
+    if (testResults.length < state.testResults.length) problems.push('testResults');
+    const village = Array.from({ length: VILLAGE_PLOTS }, (_, i) => state.village[i] ?? null);
+
+    return {
+        value: {
+            ...state,
+            successCounts: mergeRecord(INITIAL_STATE.successCounts, state.successCounts),
+            isLocked: mergeRecord(INITIAL_STATE.isLocked, state.isLocked),
+            otherSuccessesSinceLock: mergeRecord(INITIAL_STATE.otherSuccessesSinceLock, state.otherSuccessesSinceLock),
+            attempts,
+            testResults,
+            village
+        },
+        problems
+    };
+};
+
+export const validateSettings = (raw: unknown): Validated<Settings> => {
+    const problems: string[] = [];
+    if (!isObject(raw)) return { value: INITIAL_SETTINGS, problems: ['everything'] };
+    const settings = pick<Settings>(raw, INITIAL_SETTINGS, {
+        language: oneOf(['en', 'fr', 'ar'] as const),
+        range: oneOf(RANGES),
+        ops: oneOf(['plus', 'minus', 'mixed'] as const),
+        bondTarget: oneOf(BOND_TARGETS),
+        customFacts: isObject,
+        sessionTimer: v => isNumber(v) && v > 0,
+        testTimer: v => isNumber(v) && v > 0,
+        soundOn: isBoolean,
+        oneHandedMode: oneOf(['off', 'left', 'right'] as const),
+        assistMode: isBoolean,
+        typedAnswers: recordOf(isBoolean),
+        speech: isObject,
+        mixer: isObject,
+        rotation: isObject,
+        dailyPlan: isBoolean,
+        dailyGoal: isObject,
+        noPenalties: isBoolean
+    }, problems);
+    const speech = pick<SpeechSettings>(settings.speech, INITIAL_SETTINGS.speech, {
+        provider: oneOf(['auto', 'gemini', 'device', 'off'] as const),
+        geminiVoice: isString,
+        deviceVoice: isString,
+        rate: v => isNumber(v) && v > 0,
+        pitch: v => isNumber(v) && v > 0,
+        lang: isString
+    }, problems);
+    const mixer = { ...INITIAL_SETTINGS.mixer };
+    (Object.keys(mixer) as AudioChannel[]).forEach(channel => {
+        const raw = settings.mixer[channel];
+        if (raw === undefined) return;
+        if (!isObject(raw)) { problems.push(`mixer.${channel}`); return; }
+        mixer[channel] = pick<ChannelSettings>(raw, INITIAL_SETTINGS.mixer[channel], {
+            volume: v => isNumber(v) && v >= 0 && v <= 1,
+            muted: isBoolean
+        }, problems);
+    });
+    const rotation = pick<RotationSettings>(settings.rotation, INITIAL_SETTINGS.rotation, {
+        enabled: isBoolean,
+        unit: oneOf(['wins', 'minutes'] as const),
+        threshold: v => isNumber(v) && v > 0,
+        cooldown: v => isNumber(v) && v > 0,
+        modes: v => Array.isArray(v) && v.every(oneOf(Object.values(PlayMode)))
+    }, problems);
+    const dailyGoal = pick<DailyGoal>(settings.dailyGoal, INITIAL_SETTINGS.dailyGoal, {
+        unit: oneOf(['answers', 'minutes'] as const),
+        target: v => isNumber(v) && v > 0
+    }, problems);
+    const customFacts = pick<CustomFacts>(settings.customFacts, INITIAL_SETTINGS.customFacts, {
+        enabled: isBoolean,
+        facts: v => Array.isArray(v) && v.every(isFact)
+    }, problems);
+    return { value: { ...settings, speech, mixer, rotation, dailyGoal, customFacts }, problems };
+};
+
+export const validateClassroom = (raw: unknown): Validated<Classroom> => {
+    const problems: string[] = [];
+    if (!isObject(raw)) return { value: INITIAL_CLASSROOM, problems: ['everything'] };
+    const classroom = pick<Classroom>(raw, INITIAL_CLASSROOM, {
+        assignments: Array.isArray,
+        sync: isObject
+    }, problems);
+    const assignments = classroom.assignments.filter(isAssignment);
+    if (assignments.length < classroom.assignments.length) problems.push('assignments');
+    const sync = pick<SyncSettings>(classroom.sync, INITIAL_CLASSROOM.sync, {
+        enabled: isBoolean,
+        url: isString,
+        lastSyncedAt: v => v === null || isNumber(v)
+    }, problems);
+    return { value: { assignments, sync }, problems };
+};
+
+export const loadState = (parsed: unknown): Validated<AppState> =>
+    validateState(migrate(unwrapSave(parsed), STATE_MIGRATIONS));
+
+export const loadSettings = (parsed: unknown): Validated<Settings> =>
+    validateSettings(migrate(unwrapSave(parsed), SETTINGS_MIGRATIONS));
+
+export const loadClassroom = (parsed: unknown): Validated<Classroom> =>
+    validateClassroom(migrate(unwrapSave(parsed), CLASSROOM_MIGRATIONS));
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { GameType } from '../types';
+import { TEST_QUESTION_COUNT } from '../constants';
+import { buildTimeUpResult } from './scoring';
+
+describe('buildTimeUpResult', () => {
+    it('counts the questions a test ran out of time on as wrong', () => {
+        const result = buildTimeUpResult(GameType.DOUBLES, 1, 1, 60, true);
+        expect(result).toMatchObject({ correct: 1, questions: TEST_QUESTION_COUNT, score: Math.round(100 / TEST_QUESTION_COUNT), rating: 'Wood' });
+    });
+
+    it('scores a test with nothing answered as 0% Wood', () => {
+        expect(buildTimeUpResult(GameType.DOUBLES, 0, 0, 60, true)).toMatchObject({ correct: 0, questions: TEST_QUESTION_COUNT, score: 0, rating: 'Wood' });
+    });
+
+    it('scores a timed session on the questions attempted', () => {
+        expect(buildTimeUpResult(GameType.DOUBLES, 9, 10, 60, false)).toMatchObject({ questions: 10, score: 90, rating: 'Diamond' });
+    });
+});
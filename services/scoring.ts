@@ -0,0 +1,23 @@
+import { GameType, MasteryRating, TestResult } from '../types';
+import { MASTERY_THRESHOLDS, TEST_QUESTION_COUNT } from '../constants';
+
+export const getMasteryRating = (score: number): MasteryRating =>
+    score >= MASTERY_THRESHOLDS.Diamond ? 'Diamond' : score >= MASTERY_THRESHOLDS.Iron ? 'Iron' : 'Wood';
+
+export const buildResult = (gameType: GameType, correct: number, questions: number, seconds: number): TestResult => {
+    const score = questions ? Math.round((correct / questions) * 100) : 0;
+    return {
+        score,
+        rating: getMasteryRating(score),
+        time: seconds,
+        gameType,
+        correct,
+        questions,
+        secondsPerQuestion: questions ? Math.round((seconds / questions) * 10) / 10 : 0
+    };
+};
+
+// Out of time: a test is still scored over its whole question set, so the questions
+// left unanswered count as wrong; a timed session is scored on what was attempted
+export const buildTimeUpResult = (gameType: GameType, correct: number, attempted: number, seconds: number, isTest: boolean): TestResult =>
+    buildResult(gameType, correct, isTest ? TEST_QUESTION_COUNT : attempted, seconds);
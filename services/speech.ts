@@ -0,0 +1,286 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import { SpeechSettings } from '../types';
+import { INITIAL_SETTINGS } from '../constants';
+import { getCachedSpeech, cacheSpeech } from './ttsCache';
+import { getAudioContext, getChannelOutput, getChannelVolume, isAudible } from './audio';
+
+export interface SpeechProvider {
+    id: string;
+    // Can speak this line immediately, without the network (cached or on-device)
+    isReady: (text: string, options: SpeechSettings) => Promise<boolean>;
+    // Can speak at all, possibly over the network
+    isAvailable: () => boolean;
+    // Resolves once the line has finished playing or was stopped
+    speak: (text: string, options: SpeechSettings) => Promise<void>;
+    stop: () => void;
+    // Warms up a slow source in the background while a faster one talks
+    prefetch?: (text: string, options: SpeechSettings) => void;
+}
+
+// Audio Helpers for Gemini TTS
+function decode(base64: string) {
+    const binaryString = atob(base64);
+    const len = binaryString.length;
+    const bytes = new Uint8Array(len);
+    for (let i = 0; i < len; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes;
+}
+
+async function decodeAudioData(
+    data: Uint8Array,
+    ctx: AudioContext,
+    sampleRate: number,
+    numChannels: number,
+): Promise<AudioBuffer> {
+    const dataInt16 = new Int16Array(data.buffer);
+    const frameCount = dataInt16.length / numChannels;
+    const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+
+    for (let channel = 0; channel < numChannels; channel++) {
+        const channelData = buffer.getChannelData(channel);
+        for (let i = 0; i < frameCount; i++) {
+            channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+        }
+    }
+    return buffer;
+}
+
+export const createGeminiSpeechProvider = (apiKey: string | undefined): SpeechProvider => {
+    let activeSource: AudioBufferSourceNode | null = null;
+    let finishActive: (() => void) | null = null;
+    // Bumped by stop() so a line still being generated is dropped when it arrives
+    let stopCount = 0;
+    const pending = new Set<string>();
+
+    const fetchAudio = async (text: string, voice: string): Promise<string | null> => {
+        const ai = new GoogleGenAI({ apiKey });
+        const response = await ai.models.generateContent({
+            model: "gemini-2.5-flash-preview-tts",
+            contents: [{ parts: [{ text: `Say cheerfully to a 5-year-old child: ${text}` }] }],
+            config: {
+                responseModalities: [Modality.AUDIO],
+                speechConfig: {
+                    voiceConfig: {
+                        prebuiltVoiceConfig: { voiceName: voice },
+                    },
+                },
+            },
+        });
+        return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || null;
+    };
+
+    // Repeat requests for the same line share one call
+    const fetchAndCache = async (text: string, voice: string) => {
+        const key = `${voice}|${text}`;
+        if (pending.has(key)) return null;
+        pending.add(key);
+        try {
+            const audio = await fetchAudio(text, voice);
+            if (audio) await cacheSpeech(voice, text, audio);
+            return audio;
+        } finally {
+            pending.delete(key);
+        }
+    };
+
+    const play = async (base64Audio: string, rate: number, stopAtStart: number) => {
+        // Played through the shared context so the voice channel's volume applies
+        const audioContext = getAudioContext();
+        const output = getChannelOutput('voice');
+        if (!audioContext || !output) return;
+        const audioBuffer = await decodeAudioData(decode(base64Audio), audioContext, 24000, 1);
+        if (stopAtStart !== stopCount) return;
+
+        const source = audioContext.createBufferSource();
+        source.buffer = audioBuffer;
+        source.playbackRate.value = rate;
+        source.connect(output);
+        activeSource = source;
+        await new Promise<void>(resolve => {
+            finishActive = resolve;
+            source.onended = () => resolve();
+            source.start();
+        });
+        activeSource = null;
+        finishActive = null;
+    };
+
+    const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+    return {
+        id: 'gemini',
+        isReady: async (text, options) => !!(await getCachedSpeech(options.geminiVoice, text)),
+        isAvailable: () => !!apiKey && isOnline(),
+        speak: async (text, options) => {
+            const stopAtStart = stopCount;
+            const audio = await getCachedSpeech(options.geminiVoice, text) || await fetchAndCache(text, options.geminiVoice);
+            if (audio && stopAtStart === stopCount) await play(audio, options.rate, stopAtStart);
+        },
+        stop: () => {
+            stopCount++;
+            if (activeSource) {
+                try { activeSource.stop(); } catch(e) {}
+                activeSource = null;
+            }
+            finishActive?.();
+        },
+        prefetch: (text, options) => {
+            if (!apiKey || !isOnline()) return;
+            fetchAndCache(text, options.geminiVoice).catch(error => console.warn("AI TTS prefetch failed", error));
+        }
+    };
+};
+
+export const getDeviceVoices = (): SpeechSynthesisVoice[] =>
+    typeof window !== 'undefined' && window.speechSynthesis ? window.speechSynthesis.getVoices() : [];
+
+export const createWebSpeechProvider = (): SpeechProvider => {
+    let finishActive: (() => void) | null = null;
+    let stopCount = 0;
+    const isAvailable = () => typeof window !== 'undefined' && !!window.speechSynthesis;
+
+    return {
+        id: 'device',
+        isReady: async () => isAvailable(),
+        isAvailable,
+        speak: (text, options) => new Promise<void>(resolve => {
+            const utterance = new SpeechSynthesisUtterance(text);
+            utterance.rate = options.rate;
+            utterance.pitch = options.pitch;
+            utterance.volume = getChannelVolume('voice');
+            utterance.lang = options.lang;
+            const voice = getDeviceVoices().find(v => v.voiceURI === options.deviceVoice);
+            if (voice) utterance.voice = voice;
+            finishActive = resolve;
+            utterance.onend = () => resolve();
+            utterance.onerror = () => resolve();
+            // Some browsers drop an utterance queued in the same tick as cancel()
+            const stopAtStart = stopCount;
+            setTimeout(() => stopAtStart === stopCount ? window.speechSynthesis.speak(utterance) : resolve(), 10);
+        }),
+        stop: () => {
+            stopCount++;
+            if (isAvailable()) window.speechSynthesis.cancel();
+            finishActive?.();
+            finishActive = null;
+        }
+    };
+};
+
+// Speaks nothing and remembers every line, for tests and for playing with no key or network
+export const createSilentSpeechProvider = (): SpeechProvider & { spoken: string[] } => {
+    const spoken: string[] = [];
+    return {
+        id: 'silent',
+        spoken,
+        isReady: async () => true,
+        isAvailable: () => true,
+        speak: async text => { spoken.push(text); },
+        stop: () => {}
+    };
+};
+
+export interface SpeechQueue {
+    say: (text: string, options?: { interrupt?: boolean }) => void;
+    cancel: () => void;
+    pending: () => string[];
+    // Resolves once everything queued so far has been spoken or cancelled
+    idle: () => Promise<void>;
+}
+
+// Lines are spoken one at a time in order. The first provider that is ready wins
+// (cached or on-device), otherwise the first one that is available at all; slower
+// providers that were passed over get a chance to prefetch for next time.
+export const createSpeechQueue = (getProviders: () => SpeechProvider[], getOptions: () => SpeechSettings): SpeechQueue => {
+    let queue: string[] = [];
+    let generation = 0;
+    let running: Promise<void> | null = null;
+
+    const choose = async (text: string, options: SpeechSettings) => {
+        const providers = getProviders();
+        for (const provider of providers) {
+            if (await provider.isReady(text, options)) return { provider, others: providers.filter(p => p !== provider) };
+        }
+        const provider = providers.find(p => p.isAvailable());
+        return provider ? { provider, others: [] } : null;
+    };
+
+    const run = async () => {
+        const startedIn = generation;
+        while (queue.length && startedIn === generation) {
+            const text = queue.shift()!;
+            const options = getOptions();
+            const choice = await choose(text, options);
+            if (!choice || startedIn !== generation) continue;
+            choice.others.forEach(p => p.isAvailable() && p.prefetch?.(text, options));
+            try {
+                await choice.provider.speak(text, options);
+            } catch (error) {
+                console.warn(`Speech with ${choice.provider.id} failed`, error);
+            }
+        }
+    };
+
+    const start = () => {
+        if (running) return;
+        running = run().finally(() => {
+            running = null;
+            // Lines queued after a cancel are picked up by a fresh run
+            if (queue.length) start();
+        });
+    };
+
+    const cancel = () => {
+        generation++;
+        queue = [];
+        getProviders().forEach(p => p.stop());
+    };
+
+    return {
+        say: (text, { interrupt = true } = {}) => {
+            if (interrupt) cancel();
+            queue.push(text);
+            start();
+        },
+        cancel,
+        pending: () => [...queue],
+        idle: async () => {
+            while (running) await running;
+        }
+    };
+};
+
+const geminiProvider = createGeminiSpeechProvider(process.env.API_KEY);
+const webSpeechProvider = createWebSpeechProvider();
+let speechSettings: SpeechSettings = INITIAL_SETTINGS.speech;
+let providerOverride: SpeechProvider[] | null = null;
+
+const providersFor = (settings: SpeechSettings): SpeechProvider[] => {
+    switch (settings.provider) {
+        case 'gemini': return [geminiProvider];
+        case 'device': return [webSpeechProvider];
+        case 'off': return [];
+        default: return [geminiProvider, webSpeechProvider];
+    }
+};
+
+const sharedQueue = createSpeechQueue(() => providerOverride || providersFor(speechSettings), () => speechSettings);
+
+export const configureSpeech = (settings: SpeechSettings) => {
+    speechSettings = settings;
+};
+
+// Replaces the real providers, e.g. with a silent one in tests; pass null to restore them
+export const setSpeechProviders = (providers: SpeechProvider[] | null) => {
+    sharedQueue.cancel();
+    providerOverride = providers;
+};
+
+// Nothing is queued while the voice channel is muted or all sound is off
+export const speak = (text: string) => {
+    if (isAudible('voice')) sharedQueue.say(text);
+};
+
+export const stopSpeech = () => sharedQueue.cancel();
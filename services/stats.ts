@@ -0,0 +1,71 @@
+import { Attempt, Fact, GameType } from '../types';
+
+export interface FactStats {
+    key: string;
+    gameType: GameType;
+    attempts: number;
+    correct: number;
+    accuracy: number;
+    avgMs: number;
+    lastSeen: number;
+}
+
+export interface DayStats {
+    day: string;
+    attempts: number;
+    correct: number;
+    accuracy: number;
+}
+
+export const factKey = (a: Fact) => `${a.a}${a.op}${a.b}`;
+
+export const dayKey = (timestamp: number) => {
+    const d = new Date(timestamp);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const percent = (correct: number, total: number) => total ? Math.round((correct / total) * 100) : 0;
+
+export const getFactStats = (attempts: Attempt[], gameType?: GameType): FactStats[] => {
+    const byFact: Record<string, FactStats & { totalMs: number }> = {};
+    attempts.forEach(a => {
+        if (gameType && a.gameType !== gameType) return;
+        const key = factKey(a);
+        const id = `${a.gameType}:${key}`;
+        const entry = byFact[id] || (byFact[id] = { key, gameType: a.gameType, attempts: 0, correct: 0, accuracy: 0, avgMs: 0, lastSeen: 0, totalMs: 0 });
+        entry.attempts++;
+        if (a.correct) entry.correct++;
+        entry.totalMs += a.responseMs;
+        entry.lastSeen = Math.max(entry.lastSeen, a.at);
+    });
+    return Object.values(byFact).map(({ totalMs, ...entry }) => ({
+        ...entry,
+        accuracy: percent(entry.correct, entry.attempts),
+        avgMs: Math.round(totalMs / entry.attempts)
+    }));
+};
+
+export const getDailyStats = (attempts: Attempt[], gameType: GameType, days: number, now: number = Date.now()): DayStats[] => {
+    const result: DayStats[] = [];
+    for (let i = days - 1; i >= 0; i--) {
+        const day = dayKey(now - i * 24 * 60 * 60 * 1000);
+        const dayAttempts = attempts.filter(a => a.gameType === gameType && dayKey(a.at) === day);
+        const correct = dayAttempts.filter(a => a.correct).length;
+        result.push({ day, attempts: dayAttempts.length, correct, accuracy: percent(correct, dayAttempts.length) });
+    }
+    return result;
+};
+
+export const getGameAccuracy = (attempts: Attempt[], gameType: GameType) => {
+    const forGame = attempts.filter(a => a.gameType === gameType);
+    return { attempts: forGame.length, accuracy: percent(forGame.filter(a => a.correct).length, forGame.length) };
+};
+
+export const getSlowestFacts = (facts: FactStats[], count: number) =>
+    [...facts].sort((x, y) => y.avgMs - x.avgMs).slice(0, count);
+
+export const getMostMissedFacts = (facts: FactStats[], count: number) =>
+    facts
+        .filter(f => f.correct < f.attempts)
+        .sort((x, y) => (y.attempts - y.correct) - (x.attempts - x.correct) || x.accuracy - y.accuracy)
+        .slice(0, count);
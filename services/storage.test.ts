@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { loadProfileState } from './storage';
+
+// Saved entries are the object's own keys, as in a browser, so Object.keys lists them
+const fakeStorage = (entries: Record<string, string>) => {
+    const storage: Record<string, string> = { ...entries };
+    Object.defineProperties(storage, {
+        getItem: { value: (key: string) => storage[key] ?? null },
+        setItem: { value: (key: string, value: string) => { storage[key] = value; } },
+        removeItem: { value: (key: string) => { delete storage[key]; } }
+    });
+    return storage;
+};
+
+describe('damaged saves', () => {
+    afterEach(() => vi.unstubAllGlobals());
+
+    it('keeps one copy per save however often it is loaded, replacing copies from older builds', () => {
+        const storage = fakeStorage({
+            'mathVillageData:p1': '{not json',
+            'mathVillageBackup:mathVillageData:p1:1700000000000': 'old copy',
+            'mathVillageBackup:mathVillageData:p2:1700000000000': 'another player'
+        });
+        vi.stubGlobal('localStorage', storage);
+
+        for (let i = 0; i < 5; i++) expect(loadProfileState('p1').warning).not.toBeNull();
+
+        expect(Object.keys(storage).filter(k => k.startsWith('mathVillageBackup:')).sort()).toEqual([
+            'mathVillageBackup:mathVillageData:p1',
+            'mathVillageBackup:mathVillageData:p2:1700000000000'
+        ]);
+        expect(storage['mathVillageBackup:mathVillageData:p1']).toBe('{not json');
+    });
+});
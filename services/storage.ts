@@ -0,0 +1,147 @@
+import { AppState, Settings, Profile, Classroom } from '../types';
+import { INITIAL_STATE, INITIAL_SETTINGS, INITIAL_CLASSROOM, PROFILE_ICONS } from '../constants';
+import { loadState, loadSettings, loadClassroom, wrapSave } from './saveData';
+import { t } from './i18n';
+
+// Legacy single-player keys, from before profiles existed
+const LEGACY_DATA_KEY = 'mathVillageData';
+const LEGACY_SETTINGS_KEY = 'mathVillageSettings';
+
+const PROFILES_KEY = 'mathVillageProfiles';
+const CLASSROOM_KEY = 'mathVillageClassroom';
+const DATA_PREFIX = 'mathVillageData:';
+const dataKey = (profileId: string) => `${DATA_PREFIX}${profileId}`;
+const settingsKey = (profileId: string) => `mathVillageSettings:${profileId}`;
+const snapshotKey = (profileId: string) => `mathVillageSnapshot:${profileId}`;
+
+export interface Loaded<T> {
+    value: T;
+    // Set when the save was unreadable or partly repaired, for showing to the parent
+    warning: string | null;
+}
+
+const backupKey = (key: string) => `mathVillageBackup:${key}`;
+
+// Unreadable saves are kept under a backup key rather than being silently overwritten.
+// Only the latest copy of each save is kept, so one that stays damaged can't fill up storage;
+// this also clears the timestamped copies older builds kept.
+const backupRaw = (key: string, raw: string) => {
+    try {
+        Object.keys(localStorage).filter(k => k.startsWith(`${backupKey(key)}:`)).forEach(k => localStorage.removeItem(k));
+        localStorage.setItem(backupKey(key), raw);
+    } catch (e) {
+        console.error("Could not keep a copy of the damaged save", e);
+    }
+};
+
+const readSave = <T>(key: string, fallback: T, load: (parsed: unknown) => { value: T, problems: string[] }, label: 'progress' | 'settings' | 'classroom'): Loaded<T> => {
+    const raw = localStorage.getItem(key);
+    if (!raw) return { value: fallback, warning: null };
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch (e) {
+        backupRaw(key, raw);
+        return { value: fallback, warning: t('save.unreadable', { label: t(`save.${label}`) }) };
+    }
+    const { value, problems } = load(parsed);
+    if (problems.length === 0) return { value, warning: null };
+    backupRaw(key, raw);
+    return { value, warning: t('save.damaged', { label: t(`save.${label}`), fields: problems.join(', ') }) };
+};
+
+export const createProfileId = () => `p-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const isProfile = (p: any): p is Profile => p && typeof p.id === 'string' && typeof p.name === 'string' && typeof p.icon === 'string';
+
+// Rebuild the player list from the per-profile keys when the list itself is lost
+const recoverProfiles = (): Profile[] => {
+    const ids = Object.keys(localStorage).filter(k => k.startsWith(DATA_PREFIX)).map(k => k.slice(DATA_PREFIX.length));
+    return ids.map((id, i) => ({ id, name: `Player ${i + 1}`, icon: PROFILE_ICONS[i % PROFILE_ICONS.length] }));
+};
+
+export const loadProfiles = (): Profile[] => {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    if (raw) {
+        try {
+            const parsed = JSON.parse(raw);
+            if (Array.isArray(parsed) && parsed.every(isProfile)) return parsed;
+        } catch (e) {
+            console.warn("Player list is damaged, rebuilding it", e);
+        }
+        backupRaw(PROFILES_KEY, raw);
+        const recovered = recoverProfiles();
+        saveProfiles(recovered);
+        return recovered;
+    }
+
+    // Move an old single-player save into its own profile so nobody loses progress
+    const legacyData = localStorage.getItem(LEGACY_DATA_KEY);
+    if (!legacyData) return [];
+    const legacy: Profile = { id: createProfileId(), name: 'Idris', icon: PROFILE_ICONS[0] };
+    localStorage.setItem(dataKey(legacy.id), legacyData);
+    const legacySettings = localStorage.getItem(LEGACY_SETTINGS_KEY);
+    if (legacySettings) localStorage.setItem(settingsKey(legacy.id), legacySettings);
+    localStorage.removeItem(LEGACY_DATA_KEY);
+    localStorage.removeItem(LEGACY_SETTINGS_KEY);
+    saveProfiles([legacy]);
+    return [legacy];
+};
+
+export const saveProfiles = (profiles: Profile[]) => {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const loadProfileState = (profileId: string): Loaded<AppState> =>
+    readSave(dataKey(profileId), INITIAL_STATE, loadState, 'progress');
+
+export const saveProfileState = (profileId: string, state: AppState) => {
+    localStorage.setItem(dataKey(profileId), JSON.stringify(wrapSave(state)));
+};
+
+export const loadProfileSettings = (profileId: string): Loaded<Settings> =>
+    readSave(settingsKey(profileId), INITIAL_SETTINGS, loadSettings, 'settings');
+
+export const saveProfileSettings = (profileId: string, settings: Settings) => {
+    localStorage.setItem(settingsKey(profileId), JSON.stringify(wrapSave(settings)));
+};
+
+export const deleteProfileData = (profileId: string) => {
+    localStorage.removeItem(dataKey(profileId));
+    localStorage.removeItem(settingsKey(profileId));
+    localStorage.removeItem(snapshotKey(profileId));
+};
+
+export interface Snapshot {
+    takenAt: number;
+    state: AppState;
+    settings: Settings;
+}
+
+// A single local copy taken before a reset, so "ERASE PROGRESS" can be undone
+export const saveSnapshot = (profileId: string, state: AppState, settings: Settings) => {
+    localStorage.setItem(snapshotKey(profileId), JSON.stringify({ takenAt: Date.now(), state: wrapSave(state), settings: wrapSave(settings) }));
+};
+
+export const loadSnapshot = (profileId: string): Snapshot | null => {
+    try {
+        const raw = localStorage.getItem(snapshotKey(profileId));
+        if (!raw) return null;
+        const parsed = JSON.parse(raw);
+        return { takenAt: parsed.takenAt, state: loadState(parsed.state).value, settings: loadSettings(parsed.settings).value };
+    } catch (e) {
+        console.warn("Reset snapshot is unreadable", e);
+        return null;
+    }
+};
+
+export const clearSnapshot = (profileId: string) => {
+    localStorage.removeItem(snapshotKey(profileId));
+};
+
+export const loadSavedClassroom = (): Loaded<Classroom> =>
+    readSave(CLASSROOM_KEY, INITIAL_CLASSROOM, loadClassroom, 'classroom');
+
+export const saveClassroom = (classroom: Classroom) => {
+    localStorage.setItem(CLASSROOM_KEY, JSON.stringify(wrapSave(classroom)));
+};
@@ -0,0 +1,33 @@
+// Generated speech is kept in the Cache API as base64 PCM, keyed by voice and phrase,
+// so repeated lines (feedback messages, common questions) play instantly and offline.
+const CACHE_NAME = 'mathVillageSpeech-v1';
+const MAX_ENTRIES = 400;
+
+const cacheUrl = (voice: string, text: string) => `/__speech/${encodeURIComponent(voice)}/${encodeURIComponent(text)}`;
+
+const isAvailable = () => typeof window !== 'undefined' && 'caches' in window;
+
+export const getCachedSpeech = async (voice: string, text: string): Promise<string | null> => {
+    if (!isAvailable()) return null;
+    try {
+        const cache = await caches.open(CACHE_NAME);
+        const response = await cache.match(cacheUrl(voice, text));
+        return response ? await response.text() : null;
+    } catch (e) {
+        console.warn("Speech cache read failed", e);
+        return null;
+    }
+};
+
+export const cacheSpeech = async (voice: string, text: string, base64Audio: string) => {
+    if (!isAvailable()) return;
+    try {
+        const cache = await caches.open(CACHE_NAME);
+        await cache.put(cacheUrl(voice, text), new Response(base64Audio, { headers: { 'Content-Type': 'text/plain' } }));
+        // Keys come back in insertion order, so the oldest phrases go first
+        const keys = await cache.keys();
+        await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_ENTRIES)).map(k => cache.delete(k)));
+    } catch (e) {
+        console.warn("Speech cache write failed", e);
+    }
+};
@@ -0,0 +1,48 @@
+import { AppState } from '../types';
+import { SHOP_ITEMS, VILLAGE_PLOTS, VILLAGE_STARTING_PLOTS, VILLAGE_PLOTS_PER_LEVEL } from '../constants';
+
+export const unlockedPlotCount = (level: number) =>
+    Math.min(VILLAGE_PLOTS, VILLAGE_STARTING_PLOTS + (level - 1) * VILLAGE_PLOTS_PER_LEVEL);
+
+export const levelForPlot = (index: number) =>
+    index < VILLAGE_STARTING_PLOTS ? 1 : Math.ceil((index + 1 - VILLAGE_STARTING_PLOTS) / VILLAGE_PLOTS_PER_LEVEL) + 1;
+
+const placedCount = (state: AppState, itemId: string) => state.village.filter(id => id === itemId).length;
+
+// Blocks are stacked in the inventory; each owned character can stand in the village once
+export const availableCount = (state: AppState, itemId: string) => {
+    const item = SHOP_ITEMS.find(i => i.id === itemId);
+    if (!item) return 0;
+    if (item.kind === 'character') {
+        return state.unlockedItems.includes(itemId) ? Math.max(0, 1 - placedCount(state, itemId)) : 0;
+    }
+    return state.inventory[itemId] || 0;
+};
+
+export const clearPlot = (state: AppState, index: number): AppState => {
+    const itemId = state.village[index];
+    if (!itemId) return state;
+    const village = [...state.village];
+    village[index] = null;
+    const isBlock = SHOP_ITEMS.find(i => i.id === itemId)?.kind === 'tile';
+    return {
+        ...state,
+        village,
+        inventory: isBlock ? { ...state.inventory, [itemId]: (state.inventory[itemId] || 0) + 1 } : state.inventory
+    };
+};
+
+export const placeItem = (state: AppState, index: number, itemId: string): AppState => {
+    if (index >= unlockedPlotCount(state.level)) return state;
+    // Whatever was on the plot goes back to the inventory first
+    const cleared = clearPlot(state, index);
+    if (availableCount(cleared, itemId) <= 0) return state;
+    const village = [...cleared.village];
+    village[index] = itemId;
+    const isBlock = SHOP_ITEMS.find(i => i.id === itemId)?.kind === 'tile';
+    return {
+        ...cleared,
+        village,
+        inventory: isBlock ? { ...cleared.inventory, [itemId]: cleared.inventory[itemId] - 1 } : cleared.inventory
+    };
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { Attempt, GameType } from '../types';
+import { INITIAL_SETTINGS } from '../constants';
+import { GAME_LIST } from '../games';
+import { buildWorksheet, WorksheetOptions } from './worksheet';
+
+const NOW = Date.UTC(2025, 0, 1);
+const ALL_GAMES: WorksheetOptions = { seed: 1, games: GAME_LIST.map(g => g.type), count: 30, focusWeak: false };
+
+// Filling the blank in gives a true sum
+const solves = (text: string, answer: number) => {
+    const [left, right] = text.replace('☐', String(answer)).split(' = ');
+    const [a, op, b] = left.split(' ');
+    return (op === '+' ? Number(a) + Number(b) : Number(a) - Number(b)) === Number(right);
+};
+
+// A fact the child keeps getting wrong, slowly
+const misses = (type: GameType, a: number, b: number, op: '+' | '-', times: number): Attempt[] =>
+    [...Array(times)].map((_, i) => ({ gameType: type, a, b, op, answer: -1, given: -2, correct: false, responseMs: 9000, at: NOW - i * 60000 }));
+
+describe('buildWorksheet', () => {
+    it('prints the same sheet for the same seed', () => {
+        for (let seed = 0; seed < 50; seed++) {
+            const options = { ...ALL_GAMES, seed };
+            expect(buildWorksheet(options, INITIAL_SETTINGS, [], NOW)).toEqual(buildWorksheet(options, INITIAL_SETTINGS, [], NOW + 86400000));
+        }
+        expect(buildWorksheet(ALL_GAMES, INITIAL_SETTINGS, [], NOW)).not.toEqual(buildWorksheet({ ...ALL_GAMES, seed: 2 }, INITIAL_SETTINGS, [], NOW));
+    });
+
+    it('takes turns between the picked games and fills the sheet', () => {
+        const games = [GameType.DOUBLES, GameType.COUNT_UP];
+        const sheet = buildWorksheet({ ...ALL_GAMES, games, count: 12 }, INITIAL_SETTINGS, [], NOW);
+        expect(sheet.map(p => p.type)).toEqual([...Array(12)].map((_, i) => games[i % 2]));
+        expect(buildWorksheet({ ...ALL_GAMES, games: [] }, INITIAL_SETTINGS, [], NOW)).toEqual([]);
+        expect(buildWorksheet({ ...ALL_GAMES, games: [GameType.BRIDGE_TEN] }, { ...INITIAL_SETTINGS, range: 10 }, [], NOW)).toEqual([]);
+    });
+
+    it('has one blank per question and an answer key that fills it correctly', () => {
+        for (let seed = 0; seed < 50; seed++) {
+            buildWorksheet({ ...ALL_GAMES, seed }, INITIAL_SETTINGS, [], NOW).forEach(p => {
+                expect(p.text.split('☐')).toHaveLength(2);
+                expect(solves(p.text, p.answer)).toBe(true);
+            });
+        }
+    });
+
+    it('leans on missed facts only when asked to', () => {
+        const history = misses(GameType.NUMBER_HOP, 4, 3, '+', 5);
+        const options = { ...ALL_GAMES, games: [GameType.NUMBER_HOP], count: 30 };
+        const count = (focusWeak: boolean) => [...Array(20)].reduce((sum, _, seed) =>
+            sum + buildWorksheet({ ...options, seed, focusWeak }, INITIAL_SETTINGS, history, NOW).filter(p => p.text === '4 + 3 = ☐').length, 0);
+        expect(count(true)).toBeGreaterThan(count(false));
+        expect(buildWorksheet(options, INITIAL_SETTINGS, history, NOW)).toEqual(buildWorksheet(options, INITIAL_SETTINGS, [], NOW));
+    });
+});
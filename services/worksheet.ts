@@ -0,0 +1,53 @@
+import { Attempt, Fact, GameType, Settings } from '../types';
+import { getGame, playableGames } from '../games';
+import { PrintedProblem } from '../games/types';
+import { generateQuestion } from './questions';
+import { createRandom } from './random';
+import { factKey } from './stats';
+
+export const WORKSHEET_SIZES = [12, 20, 30];
+
+// Tries at drawing a fact that isn't on the sheet yet before allowing a repeat (Craft 10 only has eight)
+const MAX_REDRAWS = 5;
+
+export interface WorksheetOptions {
+    // Same seed and options, same sheet
+    seed: number;
+    games: GameType[];
+    count: number;
+    // Lean on the facts the child misses or answers slowly, using their answers so far
+    focusWeak: boolean;
+}
+
+export interface WorksheetProblem extends PrintedProblem {
+    type: GameType;
+    answer: number;
+}
+
+export const newWorksheetSeed = () => Math.floor(Math.random() * 1000000);
+
+// Questions take turns between the picked games, leaving out any with nothing to ask at these settings.
+// With focusWeak off the child's answers aren't read at all, so the seed alone reproduces the sheet;
+// with it on, the sheet also depends on the answers given so far.
+export const buildWorksheet = (options: WorksheetOptions, settings: Settings, attempts: Attempt[], now: number): WorksheetProblem[] => {
+    const random = createRandom(options.seed);
+    const history = options.focusWeak ? attempts : [];
+    const used = new Set<string>();
+    const previous: Partial<Record<GameType, Fact>> = {};
+    const problems: WorksheetProblem[] = [];
+    const games = options.games.filter(type => playableGames(settings).some(game => game.type === type));
+    if (games.length === 0) return problems;
+
+    for (let i = 0; i < options.count; i++) {
+        const type = games[i % games.length];
+        const game = getGame(type);
+        let drawn = generateQuestion(type, settings, history, previous[type] ?? null, random, now);
+        for (let tries = 0; tries < MAX_REDRAWS && used.has(`${type}:${factKey(drawn.fact)}`); tries++) {
+            drawn = generateQuestion(type, settings, history, previous[type] ?? null, random, now);
+        }
+        used.add(`${type}:${factKey(drawn.fact)}`);
+        previous[type] = drawn.fact;
+        problems.push({ type, answer: game.expected(drawn.question), ...game.printable(drawn.question, settings) });
+    }
+    return problems;
+};
@@ -3,7 +3,9 @@ export enum GameType {
     MAKE_TEN = 'MAKE_TEN',
     NUMBER_HOP = 'NUMBER_HOP',
     DOUBLES = 'DOUBLES',
-    COUNT_UP = 'COUNT_UP'
+    COUNT_UP = 'COUNT_UP',
+    MISSING_ADDEND = 'MISSING_ADDEND',
+    BRIDGE_TEN = 'BRIDGE_TEN'
 }
 
 export enum PlayMode {
@@ -19,8 +21,31 @@ export interface TestResult {
     rating: MasteryRating;
     time: number;
     gameType: GameType;
+    correct: number;
+    questions: number;
+    secondsPerQuestion: number;
 }
 
+// A finished test and when it was taken, kept for the classroom report
+export interface TestRecord extends TestResult {
+    at: number;
+}
+
+// One answer given in a game; a and b are the operands shown, e.g. 7 + 3 or 12 - 5
+export interface Attempt {
+    gameType: GameType;
+    a: number;
+    b: number;
+    op: '+' | '-';
+    answer: number;
+    given: number;
+    correct: boolean;
+    responseMs: number;
+    at: number;
+}
+
+export type Fact = Pick<Attempt, 'a' | 'b' | 'op'>;
+
 export interface AppState {
     emeralds: number;
     xp: number;
@@ -28,20 +53,131 @@ export interface AppState {
     testScores: Record<string, number>;
     unlockedItems: string[];
     equippedItem: string;
+    equippedTile: string | null;
+    inventory: Record<string, number>;
+    village: (string | null)[];
+    // Spent by wrong answers in streak runs; one comes back every HEART_REFILL_MINUTES
     hearts: number;
+    // When the refill clock last started
+    heartsUpdatedAt: number;
     successCounts: Record<string, number>;
     isLocked: Record<string, boolean>;
     otherSuccessesSinceLock: Record<string, number>;
     currentPlayMode: PlayMode;
+    // Days in a row the daily goal was met
     streak: number;
+    // dayKeys of days the daily goal was met, oldest first
+    practiceDays: string[];
+    // Achievement id to when it was unlocked
+    achievements: Record<string, number>;
+    attempts: Attempt[];
+    // Every finished test, oldest first (testScores only keeps the best)
+    testResults: TestRecord[];
+}
+
+export interface ShopItem {
+    id: string;
+    name: string;
+    price: number;
+    icon: string;
+    kind: 'character' | 'tile';
+    tileClass?: string;
+}
+
+export interface SpeechSettings {
+    provider: 'auto' | 'gemini' | 'device' | 'off';
+    geminiVoice: string;
+    // voiceURI of an on-device voice; empty for the browser's default
+    deviceVoice: string;
+    rate: number;
+    pitch: number;
+    lang: string;
+}
+
+export type Language = 'en' | 'fr' | 'ar';
+
+export type AudioChannel = 'voice' | 'sfx' | 'music';
+
+export interface ChannelSettings {
+    // 0 to 1
+    volume: number;
+    muted: boolean;
+}
+
+// Games rest after a stretch of play so the child rotates through them.
+// Play is measured in wins (see ANSWERS_PER_WIN) or in minutes.
+export interface RotationSettings {
+    enabled: boolean;
+    unit: 'wins' | 'minutes';
+    // Play on one game before it rests
+    threshold: number;
+    // Play on other games before a resting game wakes up
+    cooldown: number;
+    // Modes where finished sessions count and resting games are closed; the others stay open
+    modes: PlayMode[];
+}
+
+export interface DailyGoal {
+    unit: 'answers' | 'minutes';
+    target: number;
+}
+
+// A parent-made list of facts to practise. Each game asks the listed facts it can ask,
+// and games that can't ask any of them carry on as usual.
+export interface CustomFacts {
+    enabled: boolean;
+    facts: Fact[];
 }
 
 export interface Settings {
-    range: 10 | 20;
+    language: Language;
+    range: 10 | 20 | 50 | 100;
     ops: 'plus' | 'minus' | 'mixed';
+    // Make Ten asks for the number that completes this one
+    bondTarget: 5 | 10 | 20 | 100;
+    customFacts: CustomFacts;
     sessionTimer: number;
     testTimer: number;
     soundOn: boolean;
     oneHandedMode: 'off' | 'left' | 'right';
     assistMode: boolean;
+    typedAnswers: Record<string, boolean>;
+    speech: SpeechSettings;
+    mixer: Record<AudioChannel, ChannelSettings>;
+    rotation: RotationSettings;
+    // Suggest a few games each day, least mastered first
+    dailyPlan: boolean;
+    dailyGoal: DailyGoal;
+    // No hearts are lost and a missed day pauses the streak instead of ending it
+    noPenalties: boolean;
+}
+
+export interface Profile {
+    id: string;
+    name: string;
+    icon: string;
+}
+
+// Set by the teacher for every student on the roster, e.g. "this week: Doubles test to Iron".
+// A student has done it once they reach the rating on that test after it was set.
+export interface Assignment {
+    id: string;
+    gameType: GameType;
+    rating: MasteryRating;
+    setAt: number;
+    // dayKey of the last day, inclusive
+    due: string;
+}
+
+// Posts the classroom report to a server on the local network when asked
+export interface SyncSettings {
+    enabled: boolean;
+    url: string;
+    lastSyncedAt: number | null;
+}
+
+// Shared by everyone on the device rather than kept per profile
+export interface Classroom {
+    assignments: Assignment[];
+    sync: SyncSettings;
 }